@@ -53,6 +53,7 @@ export default withMermaid({
             { text: 'Cost Optimization', link: '/guide/cost-optimization' },
             { text: 'Index Table', link: '/guide/index-table' },
             { text: 'Reindexing', link: '/guide/reindexing' },
+            { text: 'Command-Line Tool', link: '/guide/cli' },
           ],
         },
       ],
@@ -0,0 +1,40 @@
+import { test, expect } from 'vitest';
+import registry, { AnalysisRegistry } from './analysis.js';
+import StandardAnalyzer from './analyzers/StandardAnalyzer.js';
+
+test('AnalysisRegistry', async () => {
+  const analysis = {
+    analyzer: {
+      trigram: { type: 'custom', charFilter: ['ICUNormalizer'], tokenizer: 'trigram', filter: ['LowerCaseFilter', 'stop'] },
+      english: { type: 'StandardAnalyzer', stopWords: '_english_' },
+    },
+    tokenizer: {
+      trigram: { type: 'NGramTokenizer', minGram: 3, maxGram: 3 },
+    },
+    filter: {
+      stop: { type: 'StopFilter', stopWords: ['ｂｃｄ'.normalize('NFKC')] },
+    },
+  };
+  const trigram = await registry.createAnalyzer('trigram', analysis);
+  expect(trigram.analyze('ＡＢＣＤＥ').map(token => token.text)).toEqual(['abc', 'cde']);
+
+  // Registered analyzers build the same tokens as their classes.
+  const english = await registry.createAnalyzer('english', analysis);
+  const expected = await StandardAnalyzer.getInstance({ stopWords: '_english_' });
+  expect(english.analyze('The Quick Brown Fox')).toEqual(expected.analyze('The Quick Brown Fox'));
+  expect((await registry.createAnalyzer('KeywordAnalyzer')).analyze('New York')).toEqual([{ text: 'New York', position: 0, startOffset: 0, endOffset: 8 }]);
+});
+
+test('AnalysisRegistry (plugins)', async () => {
+  const custom = new AnalysisRegistry();
+  custom.use((registry) => {
+    registry.registerTokenizer('WhitespaceTokenizer', () => ({
+      tokenize: (str: string) => str.split(' ').map(text => ({ text })),
+    }));
+  });
+  const analyzer = await custom.createAnalyzer({ type: 'custom', tokenizer: 'WhitespaceTokenizer' });
+  expect(analyzer.analyze('a b')).toEqual([{ text: 'a', position: 0 }, { text: 'b', position: 1 }]);
+
+  await expect(custom.createAnalyzer('StandardAnalyzer')).rejects.toThrow('Unknown analyzer type: StandardAnalyzer');
+  await expect(registry.createAnalyzer({ type: 'custom', tokenizer: 'StandardTokenizer', filter: ['UnknownFilter'] })).rejects.toThrow('Unknown filter type: UnknownFilter');
+});
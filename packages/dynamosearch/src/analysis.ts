@@ -0,0 +1,161 @@
+import type Analyzer from './analyzers/Analyzer.js';
+import type { CharacterFilter, TokenFilter } from './analyzers/Analyzer.js';
+import ChineseAnalyzer from './analyzers/ChineseAnalyzer.js';
+import CustomAnalyzer from './analyzers/CustomAnalyzer.js';
+import DutchAnalyzer from './analyzers/DutchAnalyzer.js';
+import EnglishAnalyzer from './analyzers/EnglishAnalyzer.js';
+import FrenchAnalyzer from './analyzers/FrenchAnalyzer.js';
+import GermanAnalyzer from './analyzers/GermanAnalyzer.js';
+import ItalianAnalyzer from './analyzers/ItalianAnalyzer.js';
+import KeywordAnalyzer from './analyzers/KeywordAnalyzer.js';
+import KoreanAnalyzer from './analyzers/KoreanAnalyzer.js';
+import PortugueseAnalyzer from './analyzers/PortugueseAnalyzer.js';
+import RussianAnalyzer from './analyzers/RussianAnalyzer.js';
+import SpanishAnalyzer from './analyzers/SpanishAnalyzer.js';
+import StandardAnalyzer from './analyzers/StandardAnalyzer.js';
+import SwedishAnalyzer from './analyzers/SwedishAnalyzer.js';
+import ICUNormalizer from './char_filters/ICUNormalizer.js';
+import ASCIIFoldingFilter from './filters/ASCIIFoldingFilter.js';
+import CJKWidthFilter from './filters/CJKWidthFilter.js';
+import CaseFoldingFilter from './filters/CaseFoldingFilter.js';
+import EdgeNGramFilter from './filters/EdgeNGramFilter.js';
+import ElisionFilter from './filters/ElisionFilter.js';
+import EnglishMinimalStemFilter from './filters/EnglishMinimalStemFilter.js';
+import KeywordMarkerFilter from './filters/KeywordMarkerFilter.js';
+import LowerCaseFilter from './filters/LowerCaseFilter.js';
+import Porter2StemFilter from './filters/Porter2StemFilter.js';
+import StopFilter from './filters/StopFilter.js';
+import SynonymFilter from './filters/SynonymFilter.js';
+import type Tokenizer from './tokenizers/Tokenizer.js';
+import EdgeNGramTokenizer from './tokenizers/EdgeNGramTokenizer.js';
+import IntlSegmenterTokenizer from './tokenizers/IntlSegmenterTokenizer.js';
+import KeywordTokenizer from './tokenizers/KeywordTokenizer.js';
+import NGramTokenizer from './tokenizers/NGramTokenizer.js';
+import PathHierarchyTokenizer from './tokenizers/PathHierarchyTokenizer.js';
+import StandardTokenizer from './tokenizers/StandardTokenizer.js';
+
+export interface ComponentConfig {
+  /** The name the component is registered with, such as `NGramTokenizer` or `StopFilter`. */
+  type: string;
+  /** Options of the component. */
+  [option: string]: unknown;
+}
+
+export interface CustomAnalyzerConfig {
+  type: 'custom';
+  /** The name of a tokenizer defined in `tokenizer`, the name of a registered tokenizer, or a tokenizer definition. */
+  tokenizer: string | ComponentConfig;
+  charFilter?: (string | ComponentConfig)[];
+  filter?: (string | ComponentConfig)[];
+}
+
+export type AnalyzerConfig = CustomAnalyzerConfig | ComponentConfig;
+
+/**
+ * Named definitions of analyzers and their components, like the `analysis` settings of Elasticsearch.
+ */
+export interface AnalysisConfig {
+  analyzer?: Record<string, AnalyzerConfig>;
+  tokenizer?: Record<string, ComponentConfig>;
+  charFilter?: Record<string, ComponentConfig>;
+  filter?: Record<string, ComponentConfig>;
+}
+
+type Factory<T> = (options: any) => T | Promise<T>;
+
+/**
+ * Registers a plugin's analyzers, tokenizers and filters.
+ */
+export type AnalysisPlugin = (registry: AnalysisRegistry) => void;
+
+/**
+ * Builds analyzers from their definitions, using the components registered by name.
+ */
+export class AnalysisRegistry {
+  private analyzers = new Map<string, Factory<Analyzer>>();
+  private tokenizers = new Map<string, Factory<Tokenizer>>();
+  private charFilters = new Map<string, Factory<CharacterFilter>>();
+  private filters = new Map<string, Factory<TokenFilter>>();
+
+  registerAnalyzer(type: string, factory: Factory<Analyzer>) {
+    this.analyzers.set(type, factory);
+  }
+
+  registerTokenizer(type: string, factory: Factory<Tokenizer>) {
+    this.tokenizers.set(type, factory);
+  }
+
+  registerCharFilter(type: string, factory: Factory<CharacterFilter>) {
+    this.charFilters.set(type, factory);
+  }
+
+  registerFilter(type: string, factory: Factory<TokenFilter>) {
+    this.filters.set(type, factory);
+  }
+
+  use(plugin: AnalysisPlugin) {
+    plugin(this);
+  }
+
+  /**
+   * Builds an analyzer from its name or definition. Names refer to the analyzers defined in `analysis`, or else to
+   * registered analyzers, which are built with their default options.
+   */
+  async createAnalyzer(analyzer: string | AnalyzerConfig, analysis: AnalysisConfig = {}): Promise<Analyzer> {
+    const config = typeof analyzer === 'string' ? analysis.analyzer?.[analyzer] ?? { type: analyzer } : analyzer;
+    if (config.type === 'custom') {
+      const { tokenizer, charFilter = [], filter = [] } = config as CustomAnalyzerConfig;
+      return new CustomAnalyzer({
+        tokenizer: await this.createComponent('tokenizer', this.tokenizers, tokenizer, analysis.tokenizer),
+        charFilters: await Promise.all(charFilter.map(charFilter => this.createComponent('char filter', this.charFilters, charFilter, analysis.charFilter))),
+        filters: await Promise.all(filter.map(filter => this.createComponent('filter', this.filters, filter, analysis.filter))),
+      });
+    }
+    return this.createComponent('analyzer', this.analyzers, config as ComponentConfig);
+  }
+
+  private async createComponent<T>(kind: string, factories: Map<string, Factory<T>>, component: string | ComponentConfig, definitions: Record<string, ComponentConfig> = {}) {
+    const { type, ...options } = typeof component === 'string' ? definitions[component] ?? { type: component } : component;
+    const factory = factories.get(type);
+    if (!factory) {
+      throw new Error(`Unknown ${kind} type: ${type}`);
+    }
+    return factory(options);
+  }
+}
+
+const registry = new AnalysisRegistry();
+registry.registerAnalyzer('ChineseAnalyzer', options => ChineseAnalyzer.getInstance(options));
+registry.registerAnalyzer('DutchAnalyzer', options => DutchAnalyzer.getInstance(options));
+registry.registerAnalyzer('EnglishAnalyzer', options => EnglishAnalyzer.getInstance(options));
+registry.registerAnalyzer('FrenchAnalyzer', options => FrenchAnalyzer.getInstance(options));
+registry.registerAnalyzer('GermanAnalyzer', options => GermanAnalyzer.getInstance(options));
+registry.registerAnalyzer('ItalianAnalyzer', options => ItalianAnalyzer.getInstance(options));
+registry.registerAnalyzer('KeywordAnalyzer', () => KeywordAnalyzer.getInstance());
+registry.registerAnalyzer('KoreanAnalyzer', options => KoreanAnalyzer.getInstance(options));
+registry.registerAnalyzer('PortugueseAnalyzer', options => PortugueseAnalyzer.getInstance(options));
+registry.registerAnalyzer('RussianAnalyzer', options => RussianAnalyzer.getInstance(options));
+registry.registerAnalyzer('SpanishAnalyzer', options => SpanishAnalyzer.getInstance(options));
+registry.registerAnalyzer('StandardAnalyzer', options => StandardAnalyzer.getInstance(options));
+registry.registerAnalyzer('SwedishAnalyzer', options => SwedishAnalyzer.getInstance(options));
+registry.registerTokenizer('EdgeNGramTokenizer', options => EdgeNGramTokenizer.getInstance(options));
+registry.registerTokenizer('IntlSegmenterTokenizer', options => IntlSegmenterTokenizer.getInstance(options));
+registry.registerTokenizer('KeywordTokenizer', () => KeywordTokenizer.getInstance());
+registry.registerTokenizer('NGramTokenizer', options => NGramTokenizer.getInstance(options));
+registry.registerTokenizer('PathHierarchyTokenizer', options => PathHierarchyTokenizer.getInstance(options));
+registry.registerTokenizer('StandardTokenizer', options => StandardTokenizer.getInstance(options));
+registry.registerCharFilter('ICUNormalizer', options => ICUNormalizer(options));
+registry.registerFilter('ASCIIFoldingFilter', options => ASCIIFoldingFilter(options));
+registry.registerFilter('CJKWidthFilter', () => CJKWidthFilter());
+registry.registerFilter('CaseFoldingFilter', () => CaseFoldingFilter());
+registry.registerFilter('EdgeNGramFilter', options => EdgeNGramFilter(options));
+registry.registerFilter('ElisionFilter', options => ElisionFilter(options));
+registry.registerFilter('EnglishMinimalStemFilter', () => EnglishMinimalStemFilter());
+registry.registerFilter('KeywordMarkerFilter', options => KeywordMarkerFilter(options));
+registry.registerFilter('LowerCaseFilter', () => LowerCaseFilter());
+registry.registerFilter('Porter2StemFilter', () => Porter2StemFilter());
+registry.registerFilter('StopFilter', options => StopFilter(options));
+registry.registerFilter('SynonymFilter', options => SynonymFilter(options));
+
+/** The registry of the built-in components, which plugins loaded from configs register theirs with. */
+export default registry;
@@ -1,7 +1,14 @@
+import type { ComponentConfig } from '../analysis.js';
 import type Tokenizer from '../tokenizers/Tokenizer.js';
+import type { Token } from '../tokenizers/Tokenizer.js';
 
-export type CharacterFilter = (str: string) => string;
-export type TokenFilter = (tokens: { text: string }[]) => { text: string }[];
+export type CharacterFilter = ((str: string) => string) & { config?: ComponentConfig };
+export type TokenFilter = ((tokens: Token[]) => Token[]) & { config?: ComponentConfig };
+
+/**
+ * Attaches the registered name and options of a filter to it, which make up the fingerprint of the analyzers using it.
+ */
+export const withConfig = <T extends (...args: any[]) => unknown>(filter: T, config: ComponentConfig) => Object.assign(filter, { config });
 
 abstract class Analyzer {
   tokenizer: Tokenizer;
@@ -18,12 +25,28 @@ abstract class Analyzer {
     throw new Error('Not implemented');
   }
 
+  /**
+   * Returns the registered names and options of the tokenizer and filters, with `null` for those without a `config`.
+   */
+  getConfig() {
+    return {
+      tokenizer: this.tokenizer.config ?? null,
+      charFilters: this.charFilters.map(charFilter => charFilter.config ?? null),
+      filters: this.filters.map(filter => filter.config ?? null),
+    };
+  }
+
+  /**
+   * Analyzes the given text and returns tokens with their positions.
+   * Offsets of the tokens are relative to the text after character filters have been applied.
+   */
   analyze(str: string) {
     let text = str;
     for (let i = 0; i < this.charFilters.length; i++) {
       text = this.charFilters[i](text);
     }
-    let tokens = this.tokenizer.tokenize(text);
+    // Tokenizers that do not report positions are assumed to emit one token per position.
+    let tokens: Token[] = this.tokenizer.tokenize(text).map((token, i) => ({ ...token, position: token.position ?? i }));
     for (let i = 0; i < this.filters.length; i++) {
       tokens = this.filters[i](tokens);
     }
@@ -0,0 +1,12 @@
+import { test, expect } from 'vitest';
+import ChineseAnalyzer from './ChineseAnalyzer.js';
+
+test('ChineseAnalyzer', async () => {
+  const analyzer = await ChineseAnalyzer.getInstance();
+  const tokens = analyzer.analyze('我们的ＡＰＰ是一个美丽的程序');
+  expect(tokens).toMatchObject([
+    { text: 'app', position: 2 },
+    { text: '美丽', position: 5 },
+    { text: '程序', position: 7 },
+  ]);
+});
@@ -0,0 +1,29 @@
+import IntlSegmenterTokenizer from '../tokenizers/IntlSegmenterTokenizer.js';
+import CJKWidthFilter from '../filters/CJKWidthFilter.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface ChineseAnalyzerOptions {
+  /** A pre-defined stop words list like _chinese_ or an array containing a list of stop words. Defaults to `_chinese_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+}
+
+/**
+ * An analyzer for Chinese text, which splits it into words with `Intl.Segmenter` for the `zh` locale, normalizes
+ * character widths, lowercases the words and removes Chinese stop words.
+ */
+class ChineseAnalyzer extends Analyzer {
+  static override async getInstance(options?: ChineseAnalyzerOptions) {
+    return new ChineseAnalyzer({
+      tokenizer: await IntlSegmenterTokenizer.getInstance({ locales: 'zh' }),
+      filters: [
+        CJKWidthFilter(),
+        LowerCaseFilter(),
+        StopFilter({ stopWords: options?.stopWords ?? '_chinese_' }),
+      ],
+    });
+  }
+}
+
+export default ChineseAnalyzer;
@@ -0,0 +1,8 @@
+import Analyzer from './Analyzer.js';
+
+/**
+ * An analyzer composed of any tokenizer, character filters and token filters, as defined by `type: 'custom'` analyzers.
+ */
+class CustomAnalyzer extends Analyzer {}
+
+export default CustomAnalyzer;
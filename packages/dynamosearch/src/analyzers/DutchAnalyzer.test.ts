@@ -0,0 +1,12 @@
+import { test, expect } from 'vitest';
+import DutchAnalyzer from './DutchAnalyzer.js';
+
+test('DutchAnalyzer', async () => {
+  const analyzer = await DutchAnalyzer.getInstance();
+  const tokens = analyzer.analyze('De hond en de kat zijn in het huis');
+  expect(tokens).toMatchObject([
+    { text: 'hond', position: 1 },
+    { text: 'kat', position: 4 },
+    { text: 'huis', position: 8 },
+  ]);
+});
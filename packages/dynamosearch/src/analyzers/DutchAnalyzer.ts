@@ -0,0 +1,27 @@
+import IntlSegmenterTokenizer from '../tokenizers/IntlSegmenterTokenizer.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface DutchAnalyzerOptions {
+  /** A pre-defined stop words list like _dutch_ or an array containing a list of stop words. Defaults to `_dutch_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+}
+
+/**
+ * An analyzer for Dutch text, which splits it into words with `Intl.Segmenter` for the `nl` locale, lowercases the
+ * words and removes Dutch stop words.
+ */
+class DutchAnalyzer extends Analyzer {
+  static override async getInstance(options?: DutchAnalyzerOptions) {
+    return new DutchAnalyzer({
+      tokenizer: await IntlSegmenterTokenizer.getInstance({ locales: 'nl' }),
+      filters: [
+        LowerCaseFilter(),
+        StopFilter({ stopWords: options?.stopWords ?? '_dutch_' }),
+      ],
+    });
+  }
+}
+
+export default DutchAnalyzer;
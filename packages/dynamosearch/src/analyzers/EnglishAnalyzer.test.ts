@@ -0,0 +1,27 @@
+import { test, expect } from 'vitest';
+import EnglishAnalyzer from './EnglishAnalyzer.js';
+
+test('EnglishAnalyzer', async () => {
+  const analyzer = await EnglishAnalyzer.getInstance();
+  const tokens = analyzer.analyze('The quick foxes were running over the lazy dog\'s bones.');
+  expect(tokens).toMatchObject([
+    { text: 'quick', position: 1 },
+    { text: 'fox', position: 2 },
+    { text: 'were', position: 3 },
+    { text: 'run', position: 4 },
+    { text: 'over', position: 5 },
+    { text: 'lazi', position: 7 },
+    { text: 'dog', position: 8 },
+    { text: 'bone', position: 9 },
+  ]);
+});
+
+test('EnglishAnalyzer (stemExclusion)', async () => {
+  const analyzer = await EnglishAnalyzer.getInstance({ stemExclusion: ['Running'] });
+  expect(analyzer.analyze('running runs').map(token => token.text)).toEqual(['running', 'run']);
+});
+
+test('EnglishAnalyzer (minimal)', async () => {
+  const analyzer = await EnglishAnalyzer.getInstance({ stemmer: 'minimal' });
+  expect(analyzer.analyze('Running queries').map(token => token.text)).toEqual(['running', 'query']);
+});
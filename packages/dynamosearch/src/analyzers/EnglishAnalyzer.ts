@@ -0,0 +1,38 @@
+import StandardTokenizer from '../tokenizers/StandardTokenizer.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import KeywordMarkerFilter from '../filters/KeywordMarkerFilter.js';
+import Porter2StemFilter from '../filters/Porter2StemFilter.js';
+import EnglishMinimalStemFilter from '../filters/EnglishMinimalStemFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface EnglishAnalyzerOptions {
+  /** The maximum token length. If a token is seen that exceeds this length then it is split at max_token_length intervals. */
+  maxTokenLength?: number;
+  /** A pre-defined stop words list like _english_ or an array containing a list of stop words. Defaults to `_english_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+  /** Words that are not stemmed. */
+  stemExclusion?: string[];
+  /** The stemmer: Porter2 (`porter2`), or one that only removes plural endings (`minimal`). Defaults to `porter2`. */
+  stemmer?: 'porter2' | 'minimal';
+}
+
+/**
+ * An analyzer for English text, which lowercases tokens, removes stop words and stems the rest, so that `running` and
+ * `runs` match `run`.
+ */
+class EnglishAnalyzer extends Analyzer {
+  static override async getInstance(options?: EnglishAnalyzerOptions) {
+    return new EnglishAnalyzer({
+      tokenizer: await StandardTokenizer.getInstance({ maxTokenLength: options?.maxTokenLength }),
+      filters: [
+        LowerCaseFilter(),
+        StopFilter({ stopWords: options?.stopWords ?? '_english_' }),
+        KeywordMarkerFilter({ keywords: options?.stemExclusion, ignoreCase: true }),
+        options?.stemmer === 'minimal' ? EnglishMinimalStemFilter() : Porter2StemFilter(),
+      ],
+    });
+  }
+}
+
+export default EnglishAnalyzer;
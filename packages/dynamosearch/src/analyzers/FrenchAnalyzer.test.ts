@@ -0,0 +1,14 @@
+import { test, expect } from 'vitest';
+import FrenchAnalyzer from './FrenchAnalyzer.js';
+
+test('FrenchAnalyzer', async () => {
+  const analyzer = await FrenchAnalyzer.getInstance();
+  const tokens = analyzer.analyze("L'homme qu’il a vu est à l’école jusqu'à midi");
+  expect(tokens).toMatchObject([
+    { text: 'homme', position: 0 },
+    { text: 'a', position: 2 },
+    { text: 'vu', position: 3 },
+    { text: 'école', position: 6 },
+    { text: 'midi', position: 8 },
+  ]);
+});
@@ -0,0 +1,29 @@
+import IntlSegmenterTokenizer from '../tokenizers/IntlSegmenterTokenizer.js';
+import ElisionFilter from '../filters/ElisionFilter.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface FrenchAnalyzerOptions {
+  /** A pre-defined stop words list like _french_ or an array containing a list of stop words. Defaults to `_french_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+}
+
+/**
+ * An analyzer for French text, which splits it into words with `Intl.Segmenter` for the `fr` locale, lowercases the
+ * words, removes elided articles such as the `l'` of `l'homme` and removes French stop words.
+ */
+class FrenchAnalyzer extends Analyzer {
+  static override async getInstance(options?: FrenchAnalyzerOptions) {
+    return new FrenchAnalyzer({
+      tokenizer: await IntlSegmenterTokenizer.getInstance({ locales: 'fr' }),
+      filters: [
+        LowerCaseFilter(),
+        ElisionFilter(),
+        StopFilter({ stopWords: options?.stopWords ?? '_french_' }),
+      ],
+    });
+  }
+}
+
+export default FrenchAnalyzer;
@@ -0,0 +1,12 @@
+import { test, expect } from 'vitest';
+import GermanAnalyzer from './GermanAnalyzer.js';
+
+test('GermanAnalyzer', async () => {
+  const analyzer = await GermanAnalyzer.getInstance();
+  const tokens = analyzer.analyze('Die STRASSE und die Straße über dem Fluss');
+  expect(tokens).toMatchObject([
+    { text: 'strasse', position: 1 },
+    { text: 'straße', position: 4 },
+    { text: 'fluss', position: 7 },
+  ]);
+});
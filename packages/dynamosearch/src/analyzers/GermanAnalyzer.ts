@@ -0,0 +1,27 @@
+import IntlSegmenterTokenizer from '../tokenizers/IntlSegmenterTokenizer.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface GermanAnalyzerOptions {
+  /** A pre-defined stop words list like _german_ or an array containing a list of stop words. Defaults to `_german_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+}
+
+/**
+ * An analyzer for German text, which splits it into words with `Intl.Segmenter` for the `de` locale, lowercases the
+ * words and removes German stop words.
+ */
+class GermanAnalyzer extends Analyzer {
+  static override async getInstance(options?: GermanAnalyzerOptions) {
+    return new GermanAnalyzer({
+      tokenizer: await IntlSegmenterTokenizer.getInstance({ locales: 'de' }),
+      filters: [
+        LowerCaseFilter(),
+        StopFilter({ stopWords: options?.stopWords ?? '_german_' }),
+      ],
+    });
+  }
+}
+
+export default GermanAnalyzer;
@@ -0,0 +1,13 @@
+import { test, expect } from 'vitest';
+import ItalianAnalyzer from './ItalianAnalyzer.js';
+
+test('ItalianAnalyzer', async () => {
+  const analyzer = await ItalianAnalyzer.getInstance();
+  const tokens = analyzer.analyze("L'amico dell'arte è nell’anima di un'artista");
+  expect(tokens).toMatchObject([
+    { text: 'amico', position: 0 },
+    { text: 'arte', position: 1 },
+    { text: 'anima', position: 3 },
+    { text: 'artista', position: 5 },
+  ]);
+});
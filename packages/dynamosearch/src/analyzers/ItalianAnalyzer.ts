@@ -0,0 +1,31 @@
+import IntlSegmenterTokenizer from '../tokenizers/IntlSegmenterTokenizer.js';
+import ElisionFilter from '../filters/ElisionFilter.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface ItalianAnalyzerOptions {
+  /** A pre-defined stop words list like _italian_ or an array containing a list of stop words. Defaults to `_italian_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+}
+
+const ARTICLES = ['c', 'l', 'all', 'dall', 'dell', 'nell', 'sull', 'coll', 'pell', 'gl', 'agl', 'dagl', 'degl', 'negl', 'sugl', 'un', 'm', 't', 's', 'v', 'd'];
+
+/**
+ * An analyzer for Italian text, which splits it into words with `Intl.Segmenter` for the `it` locale, lowercases the
+ * words, removes elided articles such as the `dell'` of `dell'arte` and removes Italian stop words.
+ */
+class ItalianAnalyzer extends Analyzer {
+  static override async getInstance(options?: ItalianAnalyzerOptions) {
+    return new ItalianAnalyzer({
+      tokenizer: await IntlSegmenterTokenizer.getInstance({ locales: 'it' }),
+      filters: [
+        LowerCaseFilter(),
+        ElisionFilter({ articles: ARTICLES }),
+        StopFilter({ stopWords: options?.stopWords ?? '_italian_' }),
+      ],
+    });
+  }
+}
+
+export default ItalianAnalyzer;
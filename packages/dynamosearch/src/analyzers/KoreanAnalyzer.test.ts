@@ -0,0 +1,13 @@
+import { test, expect } from 'vitest';
+import KoreanAnalyzer from './KoreanAnalyzer.js';
+
+test('KoreanAnalyzer', async () => {
+  const analyzer = await KoreanAnalyzer.getInstance();
+  const tokens = analyzer.analyze('ＫＴＸ는 빠르고 그리고 편합니다');
+  expect(tokens).toMatchObject([
+    { text: 'ktx', position: 0 },
+    { text: '는', position: 1 },
+    { text: '빠르고', position: 2 },
+    { text: '편합니다', position: 4 },
+  ]);
+});
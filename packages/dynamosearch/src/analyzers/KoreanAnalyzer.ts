@@ -0,0 +1,29 @@
+import IntlSegmenterTokenizer from '../tokenizers/IntlSegmenterTokenizer.js';
+import CJKWidthFilter from '../filters/CJKWidthFilter.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface KoreanAnalyzerOptions {
+  /** A pre-defined stop words list like _korean_ or an array containing a list of stop words. Defaults to `_korean_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+}
+
+/**
+ * An analyzer for Korean text, which splits it into words with `Intl.Segmenter` for the `ko` locale, normalizes
+ * character widths, lowercases the words and removes Korean stop words.
+ */
+class KoreanAnalyzer extends Analyzer {
+  static override async getInstance(options?: KoreanAnalyzerOptions) {
+    return new KoreanAnalyzer({
+      tokenizer: await IntlSegmenterTokenizer.getInstance({ locales: 'ko' }),
+      filters: [
+        CJKWidthFilter(),
+        LowerCaseFilter(),
+        StopFilter({ stopWords: options?.stopWords ?? '_korean_' }),
+      ],
+    });
+  }
+}
+
+export default KoreanAnalyzer;
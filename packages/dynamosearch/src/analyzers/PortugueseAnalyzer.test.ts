@@ -0,0 +1,11 @@
+import { test, expect } from 'vitest';
+import PortugueseAnalyzer from './PortugueseAnalyzer.js';
+
+test('PortugueseAnalyzer', async () => {
+  const analyzer = await PortugueseAnalyzer.getInstance();
+  const tokens = analyzer.analyze('Não há nada lá, você também está');
+  expect(tokens).toMatchObject([
+    { text: 'nada', position: 2 },
+    { text: 'lá', position: 3 },
+  ]);
+});
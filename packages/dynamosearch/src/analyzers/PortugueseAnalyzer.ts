@@ -0,0 +1,27 @@
+import IntlSegmenterTokenizer from '../tokenizers/IntlSegmenterTokenizer.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface PortugueseAnalyzerOptions {
+  /** A pre-defined stop words list like _portuguese_ or an array containing a list of stop words. Defaults to `_portuguese_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+}
+
+/**
+ * An analyzer for Portuguese text, which splits it into words with `Intl.Segmenter` for the `pt` locale, lowercases
+ * the words and removes Portuguese stop words.
+ */
+class PortugueseAnalyzer extends Analyzer {
+  static override async getInstance(options?: PortugueseAnalyzerOptions) {
+    return new PortugueseAnalyzer({
+      tokenizer: await IntlSegmenterTokenizer.getInstance({ locales: 'pt' }),
+      filters: [
+        LowerCaseFilter(),
+        StopFilter({ stopWords: options?.stopWords ?? '_portuguese_' }),
+      ],
+    });
+  }
+}
+
+export default PortugueseAnalyzer;
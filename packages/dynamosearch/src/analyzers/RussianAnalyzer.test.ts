@@ -0,0 +1,13 @@
+import { test, expect } from 'vitest';
+import RussianAnalyzer from './RussianAnalyzer.js';
+
+test('RussianAnalyzer', async () => {
+  const analyzer = await RussianAnalyzer.getInstance();
+  const tokens = analyzer.analyze('ЭТО была Ёлка в Москве, и её нет');
+  expect(tokens).toMatchObject([
+    { text: 'это', position: 0 },
+    { text: 'ёлка', position: 2 },
+    { text: 'москве', position: 4 },
+    { text: 'её', position: 6 },
+  ]);
+});
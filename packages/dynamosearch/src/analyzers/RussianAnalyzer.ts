@@ -0,0 +1,27 @@
+import IntlSegmenterTokenizer from '../tokenizers/IntlSegmenterTokenizer.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface RussianAnalyzerOptions {
+  /** A pre-defined stop words list like _russian_ or an array containing a list of stop words. Defaults to `_russian_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+}
+
+/**
+ * An analyzer for Russian text, which splits it into words with `Intl.Segmenter` for the `ru` locale, lowercases the
+ * words and removes Russian stop words.
+ */
+class RussianAnalyzer extends Analyzer {
+  static override async getInstance(options?: RussianAnalyzerOptions) {
+    return new RussianAnalyzer({
+      tokenizer: await IntlSegmenterTokenizer.getInstance({ locales: 'ru' }),
+      filters: [
+        LowerCaseFilter(),
+        StopFilter({ stopWords: options?.stopWords ?? '_russian_' }),
+      ],
+    });
+  }
+}
+
+export default RussianAnalyzer;
@@ -0,0 +1,11 @@
+import { test, expect } from 'vitest';
+import SpanishAnalyzer from './SpanishAnalyzer.js';
+
+test('SpanishAnalyzer', async () => {
+  const analyzer = await SpanishAnalyzer.getInstance();
+  const tokens = analyzer.analyze('Más allá de él, también está el Niño');
+  expect(tokens).toMatchObject([
+    { text: 'allá', position: 1 },
+    { text: 'niño', position: 7 },
+  ]);
+});
@@ -0,0 +1,27 @@
+import IntlSegmenterTokenizer from '../tokenizers/IntlSegmenterTokenizer.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface SpanishAnalyzerOptions {
+  /** A pre-defined stop words list like _spanish_ or an array containing a list of stop words. Defaults to `_spanish_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+}
+
+/**
+ * An analyzer for Spanish text, which splits it into words with `Intl.Segmenter` for the `es` locale, lowercases the
+ * words and removes Spanish stop words.
+ */
+class SpanishAnalyzer extends Analyzer {
+  static override async getInstance(options?: SpanishAnalyzerOptions) {
+    return new SpanishAnalyzer({
+      tokenizer: await IntlSegmenterTokenizer.getInstance({ locales: 'es' }),
+      filters: [
+        LowerCaseFilter(),
+        StopFilter({ stopWords: options?.stopWords ?? '_spanish_' }),
+      ],
+    });
+  }
+}
+
+export default SpanishAnalyzer;
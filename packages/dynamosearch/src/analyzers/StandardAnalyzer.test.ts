@@ -18,3 +18,12 @@ test('StandardAnalyzer', async () => {
     { text: 'bone' },
   ]);
 });
+
+test('StandardAnalyzer (positions)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance({ stopWords: '_english_' });
+  const tokens = analyzer.analyze('The quick fox');
+  expect(tokens).toMatchObject([
+    { text: 'quick', position: 1 },
+    { text: 'fox', position: 2 },
+  ]);
+});
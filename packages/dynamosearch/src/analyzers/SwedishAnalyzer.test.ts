@@ -0,0 +1,12 @@
+import { test, expect } from 'vitest';
+import SwedishAnalyzer from './SwedishAnalyzer.js';
+
+test('SwedishAnalyzer', async () => {
+  const analyzer = await SwedishAnalyzer.getInstance();
+  const tokens = analyzer.analyze('Även Åsa och ÖSTERSUND är här');
+  expect(tokens).toMatchObject([
+    { text: 'även', position: 0 },
+    { text: 'åsa', position: 1 },
+    { text: 'östersund', position: 3 },
+  ]);
+});
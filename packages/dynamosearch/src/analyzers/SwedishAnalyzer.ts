@@ -0,0 +1,27 @@
+import IntlSegmenterTokenizer from '../tokenizers/IntlSegmenterTokenizer.js';
+import LowerCaseFilter from '../filters/LowerCaseFilter.js';
+import StopFilter, { type StopFilterOptions } from '../filters/StopFilter.js';
+import Analyzer from './Analyzer.js';
+
+export interface SwedishAnalyzerOptions {
+  /** A pre-defined stop words list like _swedish_ or an array containing a list of stop words. Defaults to `_swedish_`. */
+  stopWords?: StopFilterOptions['stopWords'];
+}
+
+/**
+ * An analyzer for Swedish text, which splits it into words with `Intl.Segmenter` for the `sv` locale, lowercases the
+ * words and removes Swedish stop words.
+ */
+class SwedishAnalyzer extends Analyzer {
+  static override async getInstance(options?: SwedishAnalyzerOptions) {
+    return new SwedishAnalyzer({
+      tokenizer: await IntlSegmenterTokenizer.getInstance({ locales: 'sv' }),
+      filters: [
+        LowerCaseFilter(),
+        StopFilter({ stopWords: options?.stopWords ?? '_swedish_' }),
+      ],
+    });
+  }
+}
+
+export default SwedishAnalyzer;
@@ -1,11 +1,13 @@
+import { withConfig } from '../analyzers/Analyzer.js';
+
 export interface ICUNormalizerOptions {
   name?: 'nfc' | 'nfkc';
   mode?: 'compose' | 'decompose';
 }
 
-const ICUNormalizer = ({ name = 'nfkc', mode = 'compose' }: ICUNormalizerOptions = {}) => (str: string) => {
+const ICUNormalizer = ({ name = 'nfkc', mode = 'compose' }: ICUNormalizerOptions = {}) => withConfig((str: string) => {
   const form = name === 'nfc' ? (mode === 'compose' ? 'NFC' : 'NFD') : (mode === 'compose' ? 'NFKC' : 'NFKD');
   return str.normalize(form);
-};
+}, { type: 'ICUNormalizer', name, mode });
 
 export default ICUNormalizer;
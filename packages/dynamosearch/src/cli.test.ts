@@ -0,0 +1,117 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { test, expect, vi, beforeAll, afterAll } from 'vitest';
+import { DynamoDBClient, BatchWriteItemCommand, CreateTableCommand, DeleteTableCommand } from '@aws-sdk/client-dynamodb';
+import run from './cli.js';
+
+let dir: string;
+let config: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'dynamosearch-'));
+  config = join(dir, 'dynamosearch.json');
+  await writeFile(config, JSON.stringify({
+    indexTableName: 'dynamosearch_test_cli',
+    sourceTableName: 'dynamosearch_test_cli_source',
+    attributes: [
+      { name: 'Title', analyzer: 'english', shortName: 't' },
+      { name: 'Tag', analyzer: 'KeywordAnalyzer' },
+      { name: 'Code', analyzer: 'code' },
+    ],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    analysis: {
+      analyzer: {
+        english: { type: 'StandardAnalyzer', stopWords: '_english_' },
+        code: { type: 'custom', tokenizer: 'KeywordTokenizer', filter: ['UpperCaseFilter'] },
+      },
+    },
+    plugins: ['./plugin.mjs'],
+  }));
+  await writeFile(join(dir, 'plugin.mjs'), `export default (registry) => {
+    registry.registerFilter('UpperCaseFilter', () => tokens => tokens.map(token => ({ ...token, text: token.text.toUpperCase() })));
+  };`);
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true });
+});
+
+const runCommand = async (...args: string[]) => {
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+  try {
+    const code = await run([...args, '--config', config, '--endpoint', 'http://localhost:8000', '--region', 'us-east-1']);
+    return { code, output: log.mock.calls.map(call => call[0]).join('\n'), error: error.mock.calls.map(call => call[0]).join('\n') };
+  } finally {
+    log.mockRestore();
+    error.mockRestore();
+  }
+};
+
+test('analyze', async () => {
+  const { code, output } = await runCommand('analyze', 'The Quick Fox');
+  expect(code).toBe(0);
+  expect(JSON.parse(output)).toEqual({
+    Title: [
+      { text: 'quick', position: 1, startOffset: 4, endOffset: 9 },
+      { text: 'fox', position: 2, startOffset: 10, endOffset: 13 },
+    ],
+    Tag: [
+      { text: 'The Quick Fox', position: 0, startOffset: 0, endOffset: 13 },
+    ],
+    Code: [
+      { text: 'THE QUICK FOX', position: 0, startOffset: 0, endOffset: 13 },
+    ],
+  });
+  expect(await runCommand('analyze', 'text', '--attribute', 'Body')).toMatchObject({ code: 1, error: 'Attribute not found: Body' });
+  expect(await runCommand('reindex')).toMatchObject({ code: 1, error: 'Unknown command: reindex' });
+});
+
+test('create-table, backfill, search, stats, export and delete-table', async () => {
+  const client = new DynamoDBClient({
+    endpoint: 'http://localhost:8000',
+    region: 'us-east-1',
+  });
+  await client.send(new DeleteTableCommand({ TableName: 'dynamosearch_test_cli_source' })).catch(() => {});
+  await client.send(new CreateTableCommand({
+    TableName: 'dynamosearch_test_cli_source',
+    AttributeDefinitions: [{ AttributeName: 'Id', AttributeType: 'S' }],
+    KeySchema: [{ AttributeName: 'Id', KeyType: 'HASH' }],
+    BillingMode: 'PAY_PER_REQUEST',
+  }));
+  await client.send(new BatchWriteItemCommand({
+    RequestItems: {
+      dynamosearch_test_cli_source: [
+        { PutRequest: { Item: { Id: { S: 'a' }, Title: { S: 'The quick brown fox' }, Tag: { S: 'animal' } } } },
+        { PutRequest: { Item: { Id: { S: 'b' }, Title: { S: 'A lazy dog' }, Tag: { S: 'animal' } } } },
+      ],
+    },
+  }));
+
+  await runCommand('delete-table', '--if-exists');
+  expect(await runCommand('create-table')).toEqual({ code: 0, output: 'Created dynamosearch_test_cli', error: '' });
+  expect(await runCommand('backfill', '--segments', '2')).toEqual({ code: 0, output: 'Indexed 2 items', error: '' });
+  expect(await runCommand('backfill', '--segments', 'two')).toMatchObject({ code: 1, error: '--segments must be a positive integer' });
+
+  const search = await runCommand('search', 'fox', '--attributes', 'Title');
+  expect(search.code).toBe(0);
+  expect(JSON.parse(search.output).items).toEqual([{ keys: { Id: { S: 'a' } }, score: expect.any(Number) }]);
+
+  const stats = await runCommand('stats');
+  expect(JSON.parse(stats.output)).toEqual({
+    indexTableName: 'dynamosearch_test_cli',
+    docCount: 2,
+    tokenCount: { Title: 5, Tag: 2, Code: 0 },
+    averageTokenCount: { Title: 2.5, Tag: 1, Code: 0 },
+  });
+
+  const path = join(dir, 'tokens.jsonl');
+  expect(await runCommand('export', path)).toEqual({ code: 0, output: `Exported 2 documents to ${path}`, error: '' });
+  const lines = (await readFile(path, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+  expect(lines).toHaveLength(8);
+  expect(lines[lines.length - 1]).toEqual({ Item: { p: { S: '_' }, s: { B: 'AA==' }, 'dc': { N: '2' }, 'f': { S: expect.any(String) }, 'tc:t': { N: '5' }, 'tc:Tag': { N: '2' }, 'tc:Code': { N: '0' } } });
+
+  expect(await runCommand('delete-table')).toEqual({ code: 0, output: 'Deleted dynamosearch_test_cli', error: '' });
+  await client.send(new DeleteTableCommand({ TableName: 'dynamosearch_test_cli_source' }));
+});
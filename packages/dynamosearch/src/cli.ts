@@ -0,0 +1,192 @@
+import { appendFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { DynamoDBClient, ScanCommand, type AttributeValue } from '@aws-sdk/client-dynamodb';
+import DynamoSearch from './index.js';
+import { loadConfig, createOptions, type Config } from './config.js';
+
+const USAGE = `Usage: dynamosearch <command> [options]
+
+Commands:
+  create-table             Create the index table
+  delete-table             Delete the index table
+  backfill                 Index every item of the source table
+  search <query>           Search the index and print the results
+  stats                    Print the document and token counts of the index
+  analyze <text>           Print the tokens the analyzers of the attributes produce
+  export <path>            Export the postings of the source table as DynamoDB JSON for Import from S3
+
+Options:
+  -c, --config <path>      Config file (default: dynamosearch.json)
+  --endpoint <url>         DynamoDB endpoint, e.g. http://localhost:8000 for DynamoDB Local
+  --region <region>        AWS region
+  --source-table <name>    Source table, instead of sourceTableName of the config
+  --if-not-exists          create-table: do nothing if the table exists
+  --if-exists              delete-table: do nothing if the table does not exist
+  --segments <n>           backfill: number of segments scanned in parallel
+  --page-size <n>          backfill: number of items indexed per page
+  --write-capacity <n>     backfill: write capacity units consumed per second
+  --attributes <list>      search: comma-separated attributes with optional boosts, e.g. title^2,body
+  --max-items <n>          search: maximum number of results
+  --next-token <token>     search: token of the next page of results
+  --attribute <name>       analyze: analyze with the analyzer of this attribute only
+  -h, --help               Show this help`;
+
+const OPTIONS = {
+  'config': { type: 'string', short: 'c', default: 'dynamosearch.json' },
+  'endpoint': { type: 'string' },
+  'region': { type: 'string' },
+  'source-table': { type: 'string' },
+  'if-not-exists': { type: 'boolean' },
+  'if-exists': { type: 'boolean' },
+  'segments': { type: 'string' },
+  'page-size': { type: 'string' },
+  'write-capacity': { type: 'string' },
+  'attributes': { type: 'string' },
+  'max-items': { type: 'string' },
+  'next-token': { type: 'string' },
+  'attribute': { type: 'string' },
+  'help': { type: 'boolean', short: 'h' },
+} as const;
+
+const parseNumber = (name: string, value?: string) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return number;
+};
+
+const getSourceTableName = (config: Config, value?: string) => {
+  const sourceTableName = value ?? config.sourceTableName;
+  if (!sourceTableName) {
+    throw new Error('The source table is required: set sourceTableName in the config or pass --source-table');
+  }
+  return sourceTableName;
+};
+
+/**
+ * Converts an item read with the SDK to the form of the images of stream records, in which binary values are base64 strings.
+ */
+const toImage = (item: Record<string, AttributeValue>) => {
+  return Object.fromEntries(Object.entries(item).map(([key, value]) => [
+    key,
+    value.B ? { B: Buffer.from(value.B).toString('base64') } : value,
+  ])) as Record<string, AWSLambda.AttributeValue>;
+};
+
+const print = (value: unknown) => {
+  console.log(JSON.stringify(value, (_, v) => v instanceof Map ? Object.fromEntries(v) : v, 2));
+};
+
+/**
+ * Runs the command line tool with the given arguments and returns the exit code.
+ */
+const run = async (args: string[]) => {
+  try {
+    const { values, positionals } = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+    const [command, argument] = positionals;
+    if (values.help || !command) {
+      console.log(USAGE);
+      return values.help ? 0 : 1;
+    }
+
+    const config = await loadConfig(values.config);
+    const dynamoDBClientConfig = {
+      ...config.dynamoDBClientConfig,
+      ...(values.endpoint ? { endpoint: values.endpoint } : {}),
+      ...(values.region ? { region: values.region } : {}),
+    };
+    const options = await createOptions({ ...config, dynamoDBClientConfig });
+    const dynamosearch = new DynamoSearch(options);
+
+    switch (command) {
+      case 'create-table':
+        await dynamosearch.createIndexTable({ ifNotExists: values['if-not-exists'] });
+        console.log(`Created ${config.indexTableName}`);
+        break;
+      case 'delete-table':
+        await dynamosearch.deleteIndexTable({ ifExists: values['if-exists'] });
+        console.log(`Deleted ${config.indexTableName}`);
+        break;
+      case 'backfill': {
+        const { scannedCount } = await dynamosearch.backfill({
+          sourceTableName: getSourceTableName(config, values['source-table']),
+          segments: parseNumber('segments', values.segments),
+          pageSize: parseNumber('page-size', values['page-size']),
+          writeCapacity: parseNumber('write-capacity', values['write-capacity']),
+        });
+        console.log(`Indexed ${scannedCount} items`);
+        break;
+      }
+      case 'search': {
+        if (argument === undefined) throw new Error('search requires a query');
+        print(await dynamosearch.search(argument, {
+          attributes: values.attributes?.split(','),
+          maxItems: parseNumber('max-items', values['max-items']),
+          nextToken: values['next-token'],
+        }));
+        break;
+      }
+      case 'stats': {
+        const { docCount, tokenCount } = await dynamosearch.getMetadata();
+        print({
+          indexTableName: config.indexTableName,
+          docCount,
+          tokenCount,
+          averageTokenCount: new Map([...tokenCount].map(([name, count]) => [name, docCount > 0 ? count / docCount : 0])),
+        });
+        break;
+      }
+      case 'analyze': {
+        if (argument === undefined) throw new Error('analyze requires a text');
+        const attributes = options.attributes.filter(attr => !values.attribute || attr.name === values.attribute);
+        if (attributes.length === 0) throw new Error(`Attribute not found: ${values.attribute}`);
+        print(new Map(attributes.map(attr => [attr.name, attr.analyzer.analyze(argument)])));
+        break;
+      }
+      case 'export': {
+        if (argument === undefined) throw new Error('export requires a file path');
+        const client = new DynamoDBClient(dynamoDBClientConfig);
+        const sourceTableName = getSourceTableName(config, values['source-table']);
+        const resultMap = new Map<string, number>();
+        let docCount = 0;
+        let exclusiveStartKey: Record<string, AttributeValue> | undefined = undefined;
+        await writeFile(argument, '');
+        do {
+          const { Items = [], LastEvaluatedKey }: { Items?: Record<string, AttributeValue>[]; LastEvaluatedKey?: Record<string, AttributeValue> } = await client.send(new ScanCommand({
+            TableName: sourceTableName,
+            ExclusiveStartKey: exclusiveStartKey,
+          }));
+          for (let i = 0; i < Items.length; i++) {
+            const { inserted } = await dynamosearch.exportTokensAsFile(argument, toImage(Items[i]), resultMap, false);
+            if (inserted > 0) docCount++;
+          }
+          exclusiveStartKey = LastEvaluatedKey;
+        } while (exclusiveStartKey);
+        // A single metadata item holds the counts of all the exported documents.
+        const metadata = {
+          ...DynamoSearch.META_KEY,
+          [DynamoSearch.ATTR_SK]: { B: DynamoSearch.META_KEY[DynamoSearch.ATTR_SK].B.toString('base64') },
+          [DynamoSearch.ATTR_META_DOCUMENT_COUNT]: { N: docCount.toString() },
+          [DynamoSearch.ATTR_META_FINGERPRINT]: { S: dynamosearch.getFingerprint() },
+          ...Object.fromEntries(options.attributes.map(attr => [
+            `${DynamoSearch.ATTR_META_TOKEN_COUNT}:${attr.shortName || attr.name}`,
+            { N: (resultMap.get(attr.name) ?? 0).toString() },
+          ])),
+        };
+        await appendFile(argument, JSON.stringify({ Item: metadata }) + '\n');
+        console.log(`Exported ${docCount} documents to ${argument}`);
+        break;
+      }
+      default:
+        throw new Error(`Unknown command: ${command}`);
+    }
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+};
+
+export default run;
@@ -0,0 +1,71 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { DynamoDBClientConfig } from '@aws-sdk/client-dynamodb';
+import type Analyzer from './analyzers/Analyzer.js';
+import defaultRegistry, { type AnalysisConfig, type AnalysisPlugin, type AnalysisRegistry, type AnalyzerConfig } from './analysis.js';
+import type { Key, Options } from './index.js';
+
+export interface AttributeConfig {
+  name: string;
+  /** The name of an analyzer defined in `analysis`, the name of a registered analyzer, or an analyzer definition. */
+  analyzer: string | AnalyzerConfig;
+  /** The analyzer of the text of queries, given the same way as `analyzer`. Defaults to `analyzer`. */
+  searchAnalyzer?: string | AnalyzerConfig;
+  shortName?: string;
+}
+
+export interface Config extends Omit<Options, 'attributes' | 'dynamoDBClientConfig'> {
+  /** The table whose items are indexed, used by commands that scan it. */
+  sourceTableName?: string;
+  attributes: AttributeConfig[];
+  keys: Key[];
+  /** Analyzers, tokenizers, character filters and token filters that attributes refer to by name. */
+  analysis?: AnalysisConfig;
+  /** Modules whose default export is an `AnalysisPlugin`, resolved relative to the config file. */
+  plugins?: string[];
+  dynamoDBClientConfig?: DynamoDBClientConfig;
+}
+
+/**
+ * Reads a config file and registers the plugins it lists with the registry.
+ */
+export const loadConfig = async (path: string, registry: AnalysisRegistry = defaultRegistry): Promise<Config> => {
+  const config = JSON.parse(await readFile(path, 'utf-8'));
+  if (typeof config.indexTableName !== 'string') {
+    throw new Error(`${path}: indexTableName is required`);
+  }
+  if (!Array.isArray(config.attributes) || !Array.isArray(config.keys)) {
+    throw new Error(`${path}: attributes and keys are required`);
+  }
+  const require = createRequire(resolve(path));
+  for (const plugin of config.plugins ?? []) {
+    const { default: register }: { default: AnalysisPlugin } = await import(pathToFileURL(require.resolve(plugin)).href);
+    registry.use(register);
+  }
+  return config;
+};
+
+/**
+ * Builds the options of `DynamoSearch` from a config. Attributes referring to the same named analyzer share its instance.
+ */
+export const createOptions = async ({ analysis = {}, attributes, sourceTableName, plugins, ...options }: Config, registry: AnalysisRegistry = defaultRegistry): Promise<Options> => {
+  const instances = new Map<string, Promise<Analyzer>>();
+  const resolveAnalyzer = (analyzer: string | AnalyzerConfig) => {
+    if (typeof analyzer !== 'string') return registry.createAnalyzer(analyzer, analysis);
+    if (!instances.has(analyzer)) {
+      instances.set(analyzer, registry.createAnalyzer(analyzer, analysis));
+    }
+    return instances.get(analyzer)!;
+  };
+  return {
+    ...options,
+    attributes: await Promise.all(attributes.map(async ({ name, analyzer, searchAnalyzer, shortName }) => ({
+      name,
+      analyzer: await resolveAnalyzer(analyzer),
+      searchAnalyzer: searchAnalyzer === undefined ? undefined : await resolveAnalyzer(searchAnalyzer),
+      shortName,
+    }))),
+  };
+};
@@ -0,0 +1,31 @@
+import { test, expect } from 'vitest';
+import CustomAnalyzer from '../analyzers/CustomAnalyzer.js';
+import ICUNormalizer from '../char_filters/ICUNormalizer.js';
+import StandardTokenizer from '../tokenizers/StandardTokenizer.js';
+import ASCIIFoldingFilter from './ASCIIFoldingFilter.js';
+
+test('ASCIIFoldingFilter', () => {
+  const filter = ASCIIFoldingFilter();
+  const words = ['café', 'Straße', 'Ærøskøbing', 'Łódź', 'naïve', 'ﬁne', '“quoted”', 'Москва', '東京', 'plain'];
+  expect(filter(words.map(text => ({ text }))).map(token => token.text)).toEqual([
+    'cafe', 'Strasse', 'AEroskobing', 'Lodz', 'naive', 'fine', '"quoted"', 'Москва', '東京', 'plain',
+  ]);
+});
+
+test('ASCIIFoldingFilter (preserveOriginal)', () => {
+  const filter = ASCIIFoldingFilter({ preserveOriginal: true });
+  expect(filter([{ text: 'açaí', position: 0 }, { text: 'bowl', position: 1 }])).toEqual([
+    { text: 'acai', position: 0 },
+    { text: 'açaí', position: 0 },
+    { text: 'bowl', position: 1 },
+  ]);
+});
+
+test('ASCIIFoldingFilter (ICUNormalizer)', async () => {
+  const analyzer = new CustomAnalyzer({
+    charFilters: [ICUNormalizer({ name: 'nfc', mode: 'decompose' })],
+    tokenizer: await StandardTokenizer.getInstance(),
+    filters: [ASCIIFoldingFilter()],
+  });
+  expect(analyzer.analyze('crème brûlée йогурт').map(token => token.text)).toEqual(['creme', 'brulee', 'йогурт'.normalize('NFD')]);
+});
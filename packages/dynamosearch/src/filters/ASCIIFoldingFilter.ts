@@ -0,0 +1,44 @@
+import { withConfig } from '../analyzers/Analyzer.js';
+import type { Token } from '../tokenizers/Tokenizer.js';
+
+export interface ASCIIFoldingFilterOptions {
+  /** Whether the original token is kept as well, at the same position as the folded one. Defaults to `false`. */
+  preserveOriginal?: boolean;
+}
+
+const ASCII = /^[\x00-\x7F]*$/;
+
+/**
+ * Letters and punctuation that don't decompose into ASCII characters.
+ */
+const FOLDINGS: Record<string, string> = {
+  'ß': 'ss', 'ẞ': 'SS', 'æ': 'ae', 'Æ': 'AE', 'œ': 'oe', 'Œ': 'OE', 'ø': 'o', 'Ø': 'O', 'đ': 'd', 'Đ': 'D', 'ð': 'd', 'Ð': 'D',
+  'þ': 'th', 'Þ': 'TH', 'ł': 'l', 'Ł': 'L', 'ħ': 'h', 'Ħ': 'H', 'ŧ': 't', 'Ŧ': 'T', 'ŋ': 'n', 'Ŋ': 'N', 'ı': 'i', 'ƒ': 'f',
+  '‘': '\'', '’': '\'', '‚': '\'', '‛': '\'', '′': '\'', '“': '"', '”': '"', '„': '"', '‟': '"', '″': '"', '«': '"', '»': '"',
+  '‐': '-', '‑': '-', '‒': '-', '–': '-', '—': '-', '―': '-',
+};
+
+/**
+ * Folds a character and the combining marks that follow it into ASCII characters, or returns them as they are if they
+ * have no ASCII equivalent.
+ */
+const fold = (cluster: string) => {
+  const folded = cluster.normalize('NFKD').replace(/\p{M}/gu, '').replace(/./gu, char => FOLDINGS[char] ?? char);
+  return ASCII.test(folded) ? folded : cluster;
+};
+
+/**
+ * Converts letters, digits and symbols that are not in the Basic Latin block into their ASCII equivalents, if one exists,
+ * e.g., `café` to `cafe` and `Straße` to `Strasse`. Characters without an equivalent, such as those of CJK scripts, are
+ * left as they are. Combining marks are removed too, so text decomposed by `ICUNormalizer` is folded the same way.
+ */
+const ASCIIFoldingFilter = ({ preserveOriginal = false }: ASCIIFoldingFilterOptions = {}) => withConfig((tokens: Token[]) => {
+  return tokens.flatMap((token) => {
+    if (ASCII.test(token.text)) return [token];
+    const text = token.text.replace(/\P{M}\p{M}*|\p{M}+/gu, fold);
+    if (text === token.text) return [token];
+    return preserveOriginal ? [{ ...token, text }, token] : [{ ...token, text }];
+  });
+}, { type: 'ASCIIFoldingFilter', preserveOriginal });
+
+export default ASCIIFoldingFilter;
@@ -1,3 +1,5 @@
+import { withConfig } from '../analyzers/Analyzer.js';
+
 const halfKanaToFullWidth = (text: string) => {
   const kanaMap: Record<string, string> = {
     'ｶﾞ': 'ガ', 'ｷﾞ': 'ギ', 'ｸﾞ': 'グ', 'ｹﾞ': 'ゲ', 'ｺﾞ': 'ゴ',
@@ -28,8 +30,8 @@ const fullAlphaNumericToHalfWidth = (text: string) => {
   return text.replace(/[Ａ-Ｚａ-ｚ０-９]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xFEE0));
 };
 
-const CJKWidthFilter = () => (tokens: { text: string }[]) => {
+const CJKWidthFilter = () => withConfig((tokens: { text: string }[]) => {
   return tokens.map(item => ({ ...item, text: halfKanaToFullWidth(fullAlphaNumericToHalfWidth(item.text)) }));
-};
+}, { type: 'CJKWidthFilter' });
 
 export default CJKWidthFilter;
@@ -0,0 +1,23 @@
+import { test, expect } from 'vitest';
+import CustomAnalyzer from '../analyzers/CustomAnalyzer.js';
+import ICUNormalizer from '../char_filters/ICUNormalizer.js';
+import StandardTokenizer from '../tokenizers/StandardTokenizer.js';
+import ASCIIFoldingFilter from './ASCIIFoldingFilter.js';
+import CaseFoldingFilter from './CaseFoldingFilter.js';
+
+test('CaseFoldingFilter', () => {
+  const filter = CaseFoldingFilter();
+  const words = ['Straße', 'STRASSE', 'ΟΔΟΣ', 'οδος', 'ﬁle', 'ſt', 'µ', 'Ꭰꭰ', 'Café'];
+  expect(filter(words.map(text => ({ text }))).map(token => token.text)).toEqual([
+    'strasse', 'strasse', 'οδοσ', 'οδοσ', 'file', 'st', 'μ', 'ᎠᎠ', 'café',
+  ]);
+});
+
+test('CaseFoldingFilter (ICUNormalizer)', async () => {
+  const analyzer = new CustomAnalyzer({
+    charFilters: [ICUNormalizer()],
+    tokenizer: await StandardTokenizer.getInstance(),
+    filters: [CaseFoldingFilter(), ASCIIFoldingFilter()],
+  });
+  expect(analyzer.analyze('Straße ＣＡＦÉ').map(token => token.text)).toEqual(['strasse', 'cafe']);
+});
@@ -0,0 +1,26 @@
+import { withConfig } from '../analyzers/Analyzer.js';
+import type { Token } from '../tokenizers/Tokenizer.js';
+
+/**
+ * Folds the case of text with the full case folding of Unicode, which maps letters that only differ in case to the same
+ * letters, unlike `toLowerCase`.
+ */
+const foldCase = (text: string) => {
+  // Uppercasing first expands letters such as `ß` to `SS` and `ﬁ` to `FI`, and unifies variants such as `ſ` and `s`.
+  return text.toUpperCase().toLowerCase()
+    .replace(/ς/g, 'σ')
+    .replace(/ß/g, 'ss')
+    // Cherokee letters fold to uppercase, unlike the letters of other scripts.
+    .replace(/[ꭰ-ꮿ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xAB70 + 0x13A0))
+    .replace(/[ᏸ-ᏽ]/g, char => String.fromCharCode(char.charCodeAt(0) - 8));
+};
+
+/**
+ * Converts tokens to their case-folded form, e.g., `Straße`, `STRASSE` and `strasse` to `strasse`, and `ΟΔΟΣ` and `οδος` to
+ * `οδοσ`. Use it instead of `LowerCaseFilter`. Accents are kept; remove them with `ASCIIFoldingFilter`.
+ */
+const CaseFoldingFilter = () => withConfig((tokens: Token[]) => {
+  return tokens.map(token => ({ ...token, text: foldCase(token.text) }));
+}, { type: 'CaseFoldingFilter' });
+
+export default CaseFoldingFilter;
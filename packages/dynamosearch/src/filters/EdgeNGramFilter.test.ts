@@ -0,0 +1,22 @@
+import { test, expect } from 'vitest';
+import EdgeNGramFilter from './EdgeNGramFilter.js';
+
+test('EdgeNGramFilter', () => {
+  const filter = EdgeNGramFilter({ minGram: 2, maxGram: 3 });
+  expect(filter([{ text: 'quick', position: 0 }, { text: 'a', position: 1 }, { text: '日本語', position: 2 }])).toEqual([
+    { text: 'qu', position: 0 },
+    { text: 'qui', position: 0 },
+    { text: '日本', position: 2 },
+    { text: '日本語', position: 2 },
+  ]);
+});
+
+test('EdgeNGramFilter (preserveOriginal)', () => {
+  const filter = EdgeNGramFilter({ minGram: 2, maxGram: 3, preserveOriginal: true });
+  expect(filter([{ text: 'quick', position: 0 }, { text: 'a', position: 1 }])).toEqual([
+    { text: 'qu', position: 0 },
+    { text: 'qui', position: 0 },
+    { text: 'quick', position: 0 },
+    { text: 'a', position: 1 },
+  ]);
+});
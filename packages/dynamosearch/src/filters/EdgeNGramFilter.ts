@@ -0,0 +1,31 @@
+import { withConfig } from '../analyzers/Analyzer.js';
+import type { Token } from '../tokenizers/Tokenizer.js';
+
+export interface EdgeNGramFilterOptions {
+  /** The minimum length of prefixes. Defaults to `1`. */
+  minGram?: number;
+  /** The maximum length of prefixes. Defaults to `2`. */
+  maxGram?: number;
+  /** Whether tokens longer than `maxGram` or shorter than `minGram` are also kept as they are. Defaults to `false`. */
+  preserveOriginal?: boolean;
+}
+
+/**
+ * Replaces each token with its prefixes, from `minGram` to `maxGram` characters long, for search-as-you-type. The prefixes
+ * take the position and offsets of the token, so that searches read them as alternatives of the token.
+ */
+const EdgeNGramFilter = ({ minGram = 1, maxGram = 2, preserveOriginal = false }: EdgeNGramFilterOptions = {}) => {
+  return withConfig((tokens: Token[]) => tokens.flatMap((token) => {
+    const chars = Array.from(token.text);
+    const grams: Token[] = [];
+    for (let i = minGram; i <= chars.length && i <= maxGram; i++) {
+      grams.push({ ...token, text: chars.slice(0, i).join('') });
+    }
+    if (preserveOriginal && (chars.length > maxGram || chars.length < minGram)) {
+      grams.push(token);
+    }
+    return grams;
+  }), { type: 'EdgeNGramFilter', minGram, maxGram, preserveOriginal });
+};
+
+export default EdgeNGramFilter;
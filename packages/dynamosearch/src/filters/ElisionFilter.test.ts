@@ -0,0 +1,34 @@
+import { test, expect } from 'vitest';
+import ElisionFilter from './ElisionFilter.js';
+
+test('ElisionFilter', () => {
+  const filter = ElisionFilter();
+  const input = [
+    { text: "l'homme" },
+    { text: 'qu’il' },
+    { text: "jusqu'à" },
+    { text: "aujourd'hui" },
+    { text: "L'Europe" },
+  ];
+  expect(filter(input)).toEqual([
+    { text: 'homme' },
+    { text: 'il' },
+    { text: 'à' },
+    { text: "aujourd'hui" },
+    { text: "L'Europe" },
+  ]);
+});
+
+test('ElisionFilter with articles and ignoreCase', () => {
+  const filter = ElisionFilter({ articles: ['dell', 'un'], ignoreCase: true });
+  const input = [
+    { text: "Dell'arte" },
+    { text: 'un’artista' },
+    { text: "l'amico" },
+  ];
+  expect(filter(input)).toEqual([
+    { text: 'arte' },
+    { text: 'artista' },
+    { text: "l'amico" },
+  ]);
+});
@@ -0,0 +1,27 @@
+import { withConfig } from '../analyzers/Analyzer.js';
+import type { Token } from '../tokenizers/Tokenizer.js';
+
+export interface ElisionFilterOptions {
+  /** The elided words removed from the start of tokens, without the apostrophe. Defaults to those of French. */
+  articles?: string[];
+  /** Whether the articles match tokens regardless of case. Defaults to `false`. */
+  ignoreCase?: boolean;
+}
+
+const FRENCH_ARTICLES = ['l', 'm', 't', 'qu', 'n', 's', 'j', 'd', 'c', 'jusqu', 'quoiqu', 'lorsqu', 'puisqu'];
+
+/**
+ * Removes elided articles and the apostrophe following them from the start of tokens, e.g., `l'homme` to `homme` and
+ * `qu’il` to `il`, which `Intl.Segmenter` keeps together in a single word.
+ */
+const ElisionFilter = ({ articles = FRENCH_ARTICLES, ignoreCase = false }: ElisionFilterOptions = {}) => {
+  const articleSet = new Set(ignoreCase ? articles.map(article => article.toLowerCase()) : articles);
+  return withConfig((tokens: Token[]) => tokens.map((token) => {
+    const index = token.text.search(/['’]/);
+    if (index <= 0) return token;
+    const article = token.text.slice(0, index);
+    return articleSet.has(ignoreCase ? article.toLowerCase() : article) ? { ...token, text: token.text.slice(index + 1) } : token;
+  }), { type: 'ElisionFilter', articles, ignoreCase });
+};
+
+export default ElisionFilter;
@@ -0,0 +1,11 @@
+import { test, expect } from 'vitest';
+import EnglishMinimalStemFilter from './EnglishMinimalStemFilter.js';
+
+test('EnglishMinimalStemFilter', () => {
+  const filter = EnglishMinimalStemFilter();
+  const words = ['queries', 'dogs', 'horses', 'shoes', 'plays', 'keys', 'status', 'glass', 'running', 'is'];
+  expect(filter(words.map(text => ({ text }))).map(token => token.text)).toEqual([
+    'query', 'dog', 'horse', 'shoes', 'play', 'key', 'status', 'glass', 'running', 'is',
+  ]);
+  expect(filter([{ text: 'news', keyword: true }])).toEqual([{ text: 'news', keyword: true }]);
+});
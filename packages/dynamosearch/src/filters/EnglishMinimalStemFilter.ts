@@ -0,0 +1,31 @@
+import { withConfig } from '../analyzers/Analyzer.js';
+import type { Token } from '../tokenizers/Tokenizer.js';
+
+const stem = (word: string) => {
+  const n = word.length;
+  if (n < 3 || word[n - 1] !== 's') return word;
+  switch (word[n - 2]) {
+    case 'u':
+    case 's':
+      return word;
+    case 'e':
+      if (n > 3 && word[n - 3] === 'i' && word[n - 4] !== 'a' && word[n - 4] !== 'e') {
+        return word.slice(0, -3) + 'y';
+      }
+      if ('iaoe'.includes(word[n - 3])) return word;
+      return word.slice(0, -1);
+    default:
+      return word.slice(0, -1);
+  }
+};
+
+/**
+ * Removes the plural endings of English words, e.g., `foxes` to `foxe` and `queries` to `query`, and nothing else. It
+ * conflates fewer words than `Porter2StemFilter`, but rarely conflates unrelated ones. Tokens marked as keywords are left
+ * as they are.
+ */
+const EnglishMinimalStemFilter = () => withConfig((tokens: Token[]) => {
+  return tokens.map(token => token.keyword ? token : { ...token, text: stem(token.text) });
+}, { type: 'EnglishMinimalStemFilter' });
+
+export default EnglishMinimalStemFilter;
@@ -0,0 +1,20 @@
+import { test, expect } from 'vitest';
+import KeywordMarkerFilter from './KeywordMarkerFilter.js';
+
+test('KeywordMarkerFilter', () => {
+  const filter = KeywordMarkerFilter({ keywords: ['Skis'], keywordsPattern: 'v\\d+' });
+  expect(filter([{ text: 'Skis' }, { text: 'skis' }, { text: 'v2' }, { text: 'v2s' }])).toEqual([
+    { text: 'Skis', keyword: true },
+    { text: 'skis' },
+    { text: 'v2', keyword: true },
+    { text: 'v2s' },
+  ]);
+});
+
+test('KeywordMarkerFilter (ignoreCase)', () => {
+  const filter = KeywordMarkerFilter({ keywords: ['Skis'], keywordsPattern: 'v\\d+', ignoreCase: true });
+  expect(filter([{ text: 'skis' }, { text: 'V2' }])).toEqual([
+    { text: 'skis', keyword: true },
+    { text: 'V2', keyword: true },
+  ]);
+});
@@ -0,0 +1,27 @@
+import { withConfig } from '../analyzers/Analyzer.js';
+import type { Token } from '../tokenizers/Tokenizer.js';
+
+export interface KeywordMarkerFilterOptions {
+  /** Words that stemmers leave as they are. */
+  keywords?: string[];
+  /** A regular expression matching the whole of the words that stemmers leave as they are. */
+  keywordsPattern?: string;
+  /** Whether the keywords match tokens regardless of case. Defaults to `false`. */
+  ignoreCase?: boolean;
+}
+
+/**
+ * Marks tokens as keywords, so that the stemmers that follow leave them as they are, e.g., brand names.
+ */
+const KeywordMarkerFilter = ({ keywords = [], keywordsPattern, ignoreCase = false }: KeywordMarkerFilterOptions = {}) => {
+  const keywordSet = new Set(ignoreCase ? keywords.map(keyword => keyword.toLowerCase()) : keywords);
+  const pattern = keywordsPattern === undefined ? undefined : new RegExp(`^(?:${keywordsPattern})$`, ignoreCase ? 'i' : '');
+  return withConfig((tokens: Token[]) => {
+    return tokens.map((token) => {
+      const isKeyword = keywordSet.has(ignoreCase ? token.text.toLowerCase() : token.text) || !!pattern?.test(token.text);
+      return isKeyword ? { ...token, keyword: true } : token;
+    });
+  }, { type: 'KeywordMarkerFilter', keywords, keywordsPattern, ignoreCase });
+};
+
+export default KeywordMarkerFilter;
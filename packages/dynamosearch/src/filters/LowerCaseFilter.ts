@@ -1,5 +1,7 @@
-const LowerCaseFilter = () => (tokens: { text: string }[]) => {
+import { withConfig } from '../analyzers/Analyzer.js';
+
+const LowerCaseFilter = () => withConfig((tokens: { text: string }[]) => {
   return tokens.map(token => ({ ...token, text: token.text.toLowerCase() }));
-};
+}, { type: 'LowerCaseFilter' });
 
 export default LowerCaseFilter;
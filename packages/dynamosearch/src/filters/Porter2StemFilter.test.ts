@@ -0,0 +1,24 @@
+import { test, expect } from 'vitest';
+import Porter2StemFilter from './Porter2StemFilter.js';
+
+test('Porter2StemFilter', () => {
+  const filter = Porter2StemFilter();
+  const words = [
+    'running', 'runs', 'ran', 'consign', 'consigned', 'consolingly', 'generously', 'knives', 'happiness', 'caresses', 'ponies',
+    'ties', 'agreed', 'hopping', 'hoping', 'relational', 'communication', 'dying', 'skies', 'news', 'succeeding', 'dog\'s',
+    'constructor', '__proto__',
+  ];
+  expect(filter(words.map(text => ({ text }))).map(token => token.text)).toEqual([
+    'run', 'run', 'ran', 'consign', 'consign', 'consol', 'generous', 'knive', 'happi', 'caress', 'poni',
+    'tie', 'agre', 'hop', 'hope', 'relat', 'communic', 'die', 'sky', 'news', 'succeed', 'dog',
+    'constructor', '__proto__',
+  ]);
+});
+
+test('Porter2StemFilter (keywords)', () => {
+  const filter = Porter2StemFilter();
+  expect(filter([{ text: 'running', keyword: true }, { text: 'running' }])).toEqual([
+    { text: 'running', keyword: true },
+    { text: 'run' },
+  ]);
+});
@@ -0,0 +1,152 @@
+import { withConfig } from '../analyzers/Analyzer.js';
+import type { Token } from '../tokenizers/Tokenizer.js';
+
+const EXCEPTIONS = new Map(Object.entries({
+  skis: 'ski', skies: 'sky', dying: 'die', lying: 'lie', tying: 'tie',
+  idly: 'idl', gently: 'gentl', ugly: 'ugli', early: 'earli', only: 'onli', singly: 'singl',
+  sky: 'sky', news: 'news', howe: 'howe', atlas: 'atlas', cosmos: 'cosmos', bias: 'bias', andes: 'andes',
+}));
+
+const EXCEPTIONS_AFTER_STEP_1A = new Set(['inning', 'outing', 'canning', 'herring', 'earring', 'proceed', 'exceed', 'succeed']);
+
+const STEP_2: [string, string][] = [
+  ['ization', 'ize'], ['ational', 'ate'], ['fulness', 'ful'], ['ousness', 'ous'], ['iveness', 'ive'],
+  ['tional', 'tion'], ['biliti', 'ble'], ['lessli', 'less'],
+  ['entli', 'ent'], ['ation', 'ate'], ['alism', 'al'], ['aliti', 'al'], ['ousli', 'ous'], ['iviti', 'ive'], ['fulli', 'ful'],
+  ['enci', 'ence'], ['anci', 'ance'], ['abli', 'able'], ['izer', 'ize'], ['ator', 'ate'], ['alli', 'al'],
+  ['bli', 'ble'], ['ogi', 'og'], ['li', ''],
+];
+
+const STEP_3: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['alize', 'al'], ['icate', 'ic'], ['iciti', 'ic'], ['ative', ''], ['ical', 'ic'],
+  ['ness', ''], ['ful', ''],
+];
+
+const STEP_4 = [
+  'ement', 'ance', 'ence', 'able', 'ible', 'ment', 'ant', 'ent', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize', 'ion', 'al', 'er', 'ic',
+];
+
+const isVowel = (char: string | undefined) => char !== undefined && 'aeiouy'.includes(char);
+
+/**
+ * Returns the start of the region after the first non-vowel following a vowel, from the given offset.
+ */
+const getRegion = (word: string, from: number) => {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!isVowel(word[i]) && isVowel(word[i - 1])) return i + 1;
+  }
+  return word.length;
+};
+
+/**
+ * Whether the word ends with a short syllable: a vowel followed by a non-vowel other than w, x or Y and preceded by a
+ * non-vowel, or a vowel at the beginning of the word followed by a non-vowel.
+ */
+const endsWithShortSyllable = (word: string) => {
+  const n = word.length;
+  if (n === 2) return isVowel(word[0]) && !isVowel(word[1]);
+  return n > 2 && !isVowel(word[n - 3]) && isVowel(word[n - 2]) && !isVowel(word[n - 1]) && !'wxY'.includes(word[n - 1]);
+};
+
+const findSuffix = <T extends string | [string, string]>(word: string, suffixes: T[]) => {
+  return suffixes.find(suffix => word.endsWith(typeof suffix === 'string' ? suffix : suffix[0]));
+};
+
+/**
+ * Stems an English word with the Porter2 (Snowball English) algorithm. The word is expected to be in lowercase.
+ */
+const stem = (input: string) => {
+  if (input.length <= 2) return input;
+  const exception = EXCEPTIONS.get(input);
+  if (exception !== undefined) return exception;
+
+  let word = input.startsWith('\'') ? input.slice(1) : input;
+  word = word.replace(/^y/, 'Y').replace(/([aeiouy])y/g, '$1Y');
+  const gener = word.match(/^(gener|commun|arsen)/);
+  const r1 = gener ? gener[0].length : getRegion(word, 0);
+  const r2 = getRegion(word, r1);
+  const isShort = (w: string) => r1 >= w.length && endsWithShortSyllable(w);
+
+  // Step 0: possessives
+  word = word.replace(/'(s'?)?$/, '');
+
+  // Step 1a: plurals
+  if (word.endsWith('sses')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('ied') || word.endsWith('ies')) {
+    word = word.slice(0, -3) + (word.length > 4 ? 'i' : 'ie');
+  } else if (word.endsWith('us') || word.endsWith('ss')) {
+    // Left as they are.
+  } else if (word.endsWith('s') && /[aeiouy]/.test(word.slice(0, -2))) {
+    word = word.slice(0, -1);
+  }
+  if (EXCEPTIONS_AFTER_STEP_1A.has(word)) return word;
+
+  // Step 1b: past tenses and gerunds
+  const step1b = findSuffix(word, ['eedly', 'ingly', 'edly', 'eed', 'ing', 'ed']);
+  if (step1b === 'eed' || step1b === 'eedly') {
+    if (word.length - step1b.length >= r1) {
+      word = word.slice(0, -step1b.length) + 'ee';
+    }
+  } else if (step1b && /[aeiouy]/.test(word.slice(0, -step1b.length))) {
+    word = word.slice(0, -step1b.length);
+    if (/(at|bl|iz)$/.test(word)) {
+      word += 'e';
+    } else if (/(bb|dd|ff|gg|mm|nn|pp|rr|tt)$/.test(word)) {
+      word = word.slice(0, -1);
+    } else if (isShort(word)) {
+      word += 'e';
+    }
+  }
+
+  // Step 1c
+  if (word.length > 2 && /[yY]$/.test(word) && !isVowel(word[word.length - 2])) {
+    word = word.slice(0, -1) + 'i';
+  }
+
+  // Step 2
+  const step2 = findSuffix(word, STEP_2);
+  if (step2 && word.length - step2[0].length >= r1) {
+    const base = word.slice(0, -step2[0].length);
+    if (step2[0] === 'ogi') {
+      if (base.endsWith('l')) word = base + step2[1];
+    } else if (step2[0] === 'li') {
+      if (/[cdeghkmnrt]$/.test(base)) word = base;
+    } else {
+      word = base + step2[1];
+    }
+  }
+
+  // Step 3
+  const step3 = findSuffix(word, STEP_3);
+  if (step3 && word.length - step3[0].length >= (step3[0] === 'ative' ? r2 : r1)) {
+    word = word.slice(0, -step3[0].length) + step3[1];
+  }
+
+  // Step 4
+  const step4 = findSuffix(word, STEP_4);
+  if (step4 && word.length - step4.length >= r2) {
+    const base = word.slice(0, -step4.length);
+    if (step4 !== 'ion' || /[st]$/.test(base)) word = base;
+  }
+
+  // Step 5
+  if (word.endsWith('e')) {
+    const base = word.slice(0, -1);
+    if (base.length >= r2 || (base.length >= r1 && !endsWithShortSyllable(base))) word = base;
+  } else if (word.endsWith('ll') && word.length - 1 >= r2) {
+    word = word.slice(0, -1);
+  }
+
+  return word.replace(/Y/g, 'y');
+};
+
+/**
+ * Stems English words with the Porter2 algorithm, also known as the Snowball English stemmer, e.g., `running` and `runs`
+ * to `run`. Tokens are expected to be in lowercase. Tokens marked as keywords are left as they are.
+ */
+const Porter2StemFilter = () => withConfig((tokens: Token[]) => {
+  return tokens.map(token => token.keyword ? token : { ...token, text: stem(token.text) });
+}, { type: 'Porter2StemFilter' });
+
+export default Porter2StemFilter;
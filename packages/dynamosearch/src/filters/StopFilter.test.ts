@@ -22,3 +22,19 @@ test('StopFilter', () => {
     { text: 'dog' },
   ]);
 });
+
+test('StopFilter (predefined lists)', () => {
+  const filter = StopFilter({ stopWords: ['_french_', '_german_', 'chat'] });
+  const input = [
+    { text: 'le' },
+    { text: 'chat' },
+    { text: 'und' },
+    { text: 'die' },
+    { text: 'katze' },
+    { text: 'the' },
+  ];
+  expect(filter(input)).toEqual([
+    { text: 'katze' },
+    { text: 'the' },
+  ]);
+});
@@ -1,3 +1,4 @@
+import { withConfig } from '../analyzers/Analyzer.js';
 import * as PredefinedStopWords from './stopwords/index.js';
 
 export interface StopFilterOptions {
@@ -20,9 +21,9 @@ const StopFilter = ({ stopWords = '_english_' }: StopFilterOptions = {}) => {
       }
     }
   }
-  return (tokens: { text: string }[]) => {
+  return withConfig((tokens: { text: string }[]) => {
     return tokens.filter(token => !stopWordSet.has(token.text));
-  };
+  }, { type: 'StopFilter', stopWords });
 };
 
 export default StopFilter;
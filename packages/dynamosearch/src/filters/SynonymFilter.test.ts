@@ -0,0 +1,74 @@
+import { test, expect } from 'vitest';
+import SynonymFilter from './SynonymFilter.js';
+import StandardTokenizer from '../tokenizers/StandardTokenizer.js';
+import StandardAnalyzer from '../analyzers/StandardAnalyzer.js';
+
+const tokenize = async (text: string) => {
+  const tokenizer = await StandardTokenizer.getInstance();
+  return tokenizer.tokenize(text).map((token, position) => ({ ...token, position }));
+};
+
+test('SynonymFilter', async () => {
+  const filter = SynonymFilter({ synonyms: ['tv, television', 'i-pod, i pod => ipod'] });
+  expect(filter(await tokenize('tv show'))).toEqual([
+    { text: 'tv', position: 0, startOffset: 0, endOffset: 2 },
+    { text: 'television', position: 0, startOffset: 0, endOffset: 2 },
+    { text: 'show', position: 1, startOffset: 3, endOffset: 7 },
+  ]);
+  expect(filter(await tokenize('my i pod'))).toEqual([
+    { text: 'my', position: 0, startOffset: 0, endOffset: 2 },
+    { text: 'ipod', position: 1, startOffset: 3, endOffset: 8 },
+  ]);
+  expect(filter(await tokenize('the TV'))).toEqual([
+    { text: 'the', position: 0, startOffset: 0, endOffset: 3 },
+    { text: 'TV', position: 1, startOffset: 4, endOffset: 6 },
+  ]);
+});
+
+test('SynonymFilter (multi-word synonyms)', async () => {
+  const filter = SynonymFilter({ synonyms: ['tv, television set, telly', 'smartphone, smart phone'] });
+  // The original takes the first positions, and the other paths positions after them, all ending at the same position.
+  expect(filter(await tokenize('tv show'))).toEqual([
+    { text: 'tv', position: 0, positionLength: 2, startOffset: 0, endOffset: 2 },
+    { text: 'television', position: 0, startOffset: 0, endOffset: 2 },
+    { text: 'telly', position: 0, positionLength: 2, startOffset: 0, endOffset: 2 },
+    { text: 'set', position: 1, startOffset: 0, endOffset: 2 },
+    { text: 'show', position: 2, startOffset: 3, endOffset: 7 },
+  ]);
+  expect(filter(await tokenize('smart phone case'))).toEqual([
+    { text: 'smart', position: 0, startOffset: 0, endOffset: 5 },
+    { text: 'smartphone', position: 0, positionLength: 2, startOffset: 0, endOffset: 11 },
+    { text: 'phone', position: 1, startOffset: 6, endOffset: 11 },
+    { text: 'case', position: 2, startOffset: 12, endOffset: 16 },
+  ]);
+  // Tokens that are not consecutive, such as those around a removed stop word, do not match.
+  expect(filter([{ text: 'smart', position: 0 }, { text: 'phone', position: 2 }])).toEqual([
+    { text: 'smart', position: 0 },
+    { text: 'phone', position: 2 },
+  ]);
+});
+
+test('SynonymFilter (options)', async () => {
+  const contracted = SynonymFilter({ synonyms: ['television, tv'], expand: false, ignoreCase: true });
+  expect(contracted(await tokenize('TV')).map(token => token.text)).toEqual(['television']);
+
+  const wordnet = SynonymFilter({
+    format: 'wordnet',
+    synonyms: [
+      's(104405907,1,\'television\',n,1,4).',
+      's(104405907,2,\'telecasting\',n,1,0).',
+      's(104405907,3,\'TV\',n,1,0).',
+      's(104406350,1,\'television receiver\',n,1,3).',
+      's(104406350,2,\'TV\',n,2,0).',
+    ],
+  });
+  expect(wordnet(await tokenize('TV')).map(token => token.text)).toEqual(['TV', 'television', 'telecasting', 'television', 'receiver']);
+
+  // Rules are analyzed like the text, so that they match its tokens.
+  const analyzer = await StandardAnalyzer.getInstance();
+  const analyzed = SynonymFilter({ synonyms: ['Wi-Fi, wireless LAN'], analyzer });
+  expect(analyzed(analyzer.analyze('wifi wi fi')).map(token => token.text)).toEqual(['wifi', 'wi', 'wireless', 'fi', 'lan']);
+
+  expect(() => SynonymFilter({ synonyms: ['a => b => c'] })).toThrow('Invalid synonym rule: a => b => c');
+  expect(SynonymFilter({ synonyms: ['a\\,b, c', '# comment'] })([{ text: 'a,b' }]).map(token => token.text)).toEqual(['a,b', 'c']);
+});
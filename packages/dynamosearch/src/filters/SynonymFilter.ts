@@ -0,0 +1,155 @@
+import Analyzer, { withConfig } from '../analyzers/Analyzer.js';
+import type { Token } from '../tokenizers/Tokenizer.js';
+
+export interface SynonymFilterOptions {
+  /**
+   * Rules in the Solr format, such as `tv, television` for equivalent synonyms or `i-pod, i pod => ipod` for explicit
+   * mappings, or lines of the WordNet prolog format, such as `s(100000001,1,'tv',n,1,0).`.
+   */
+  synonyms: string[];
+  /** The format of the rules. Defaults to `solr`. */
+  format?: 'solr' | 'wordnet';
+  /** Whether equivalent synonyms map to each other, or only to the first of them. Defaults to `true`. */
+  expand?: boolean;
+  /** Whether the rules match tokens regardless of case. Defaults to `false`. */
+  ignoreCase?: boolean;
+  /**
+   * Splits the words of the rules into tokens, usually with the tokenizer and filters that precede this filter, so that
+   * they match the tokens of the text. Defaults to splitting at whitespace.
+   */
+  analyzer?: { analyze(str: string): Token[] };
+}
+
+const SEPARATOR = '\u0000';
+
+/**
+ * Splits a rule at the separators not escaped with a backslash. The escapes are kept for the separators split later.
+ */
+const split = (str: string, separator: string) => {
+  const parts: string[] = [];
+  let part = '';
+  for (let i = 0; i < str.length; i++) {
+    if (str[i] === '\\' && i + 1 < str.length) {
+      part += str[i] + str[++i];
+    } else if (str.startsWith(separator, i)) {
+      parts.push(part);
+      part = '';
+      i += separator.length - 1;
+    } else {
+      part += str[i];
+    }
+  }
+  return [...parts, part];
+};
+
+const parseSolrRules = (rules: string[]) => {
+  return rules.flatMap(rule => rule.split('\n')).flatMap((line) => {
+    if (line.trim() === '' || line.trim().startsWith('#')) return [];
+    const sides = split(line, '=>').map(side => split(side, ',').map(word => word.trim().replace(/\\(.)/g, '$1')).filter(word => word !== ''));
+    if (sides.length > 2 || sides.some(side => side.length === 0)) {
+      throw new Error(`Invalid synonym rule: ${line}`);
+    }
+    return [sides.length === 2 ? { inputs: sides[0], outputs: sides[1] } : { inputs: sides[0] }];
+  });
+};
+
+const parseWordNetRules = (rules: string[]) => {
+  const synsets = new Map<string, string[]>();
+  rules.flatMap(rule => rule.split('\n')).forEach((line) => {
+    const match = line.match(/^s\((\d+),\d+,'((?:[^']|'')*)',/);
+    if (!match) return;
+    synsets.set(match[1], [...(synsets.get(match[1]) ?? []), match[2].replace(/''/g, '\'')]);
+  });
+  return [...synsets.values()].map(inputs => ({ inputs, outputs: undefined }));
+};
+
+/**
+ * Adds the synonyms of words and phrases as alternatives at their positions. A synonym standing for several tokens spans
+ * their positions with `positionLength`, and synonyms of several words get positions of their own, so that every sequence of
+ * synonyms forms a path through the positions. Searches score the alternatives as a single term.
+ */
+const SynonymFilter = ({ synonyms, format = 'solr', expand = true, ignoreCase = false, analyzer }: SynonymFilterOptions) => {
+  const toWords = (phrase: string) => analyzer
+    ? analyzer.analyze(phrase).map(token => token.text)
+    : phrase.split(/\s+/).filter(word => word !== '');
+  const toKey = (words: string[]) => words.map(word => ignoreCase ? word.toLowerCase() : word).join(SEPARATOR);
+
+  const mappings = new Map<string, Map<string, string[]>>();
+  let maxLength = 0;
+  const rules = format === 'wordnet' ? parseWordNetRules(synonyms) : parseSolrRules(synonyms);
+  rules.forEach(({ inputs, outputs }) => {
+    const targets = outputs ?? (expand ? inputs : inputs.slice(0, 1));
+    inputs.map(toWords).filter(words => words.length > 0).forEach((words) => {
+      const key = toKey(words);
+      const alternatives = mappings.get(key) ?? new Map<string, string[]>();
+      targets.map(toWords).filter(target => target.length > 0).forEach(target => alternatives.set(toKey(target), target));
+      mappings.set(key, alternatives);
+      maxLength = Math.max(maxLength, words.length);
+    });
+  });
+
+  const findMatch = (tokens: Token[], start: number) => {
+    for (let length = Math.min(maxLength, tokens.length - start); length > 0; length--) {
+      const words = tokens.slice(start, start + length);
+      // Only consecutive tokens form a phrase.
+      if (words.some((token, i) => i > 0 && token.position! !== words[i - 1].position! + 1)) continue;
+      const key = toKey(words.map(token => token.text));
+      const alternatives = mappings.get(key);
+      if (alternatives) return { key, length, alternatives };
+    }
+    return undefined;
+  };
+
+  return withConfig((input: Token[]) => {
+    const tokens = input.map((token, i) => ({ ...token, position: token.position ?? i }));
+    const output: Token[] = [];
+    let shift = 0;
+    for (let i = 0; i < tokens.length;) {
+      const match = findMatch(tokens, i);
+      if (!match) {
+        output.push({ ...tokens[i], position: tokens[i].position + shift });
+        i++;
+        continue;
+      }
+      const originals = tokens.slice(i, i + match.length);
+      const start = originals[0].position + shift;
+      const offsets = { startOffset: originals[0].startOffset, endOffset: originals[originals.length - 1].endOffset };
+      // The original tokens are kept when they are one of their own synonyms, and take the first positions.
+      const keepOriginal = match.alternatives.has(match.key);
+      const alternatives = [...match.alternatives.entries()].filter(([key]) => key !== match.key).map(([, words]) => words);
+      const main: Token[] = keepOriginal
+        ? originals.map(token => ({ ...token }))
+        : alternatives.shift()!.map(text => ({ text, ...offsets }));
+      // The other paths pass through positions after those of the first path, which all paths then end at.
+      let next = start + main.length;
+      const paths = alternatives.map((words) => {
+        const path = words.map((text, j) => ({ text, ...offsets, position: j === 0 ? start : next + j - 1 }));
+        next += words.length - 1;
+        return path;
+      });
+      const end = next;
+      main.forEach((token, j) => {
+        token.position = start + j;
+        const positionLength = j === main.length - 1 ? end - token.position : 1;
+        if (positionLength > 1) token.positionLength = positionLength;
+        output.push(token);
+      });
+      paths.forEach(path => path.forEach((token, j) => {
+        const positionLength = (j === path.length - 1 ? end : path[j + 1].position) - token.position;
+        output.push(positionLength > 1 ? { ...token, positionLength } : token);
+      }));
+      shift += end - (start + match.length);
+      i += match.length;
+    }
+    return output.sort((a, b) => a.position! - b.position!);
+  }, {
+    type: 'SynonymFilter',
+    synonyms,
+    format,
+    expand,
+    ignoreCase,
+    analyzer: analyzer && (analyzer instanceof Analyzer ? analyzer.getConfig() : null),
+  });
+};
+
+export default SynonymFilter;
@@ -1,2 +1,12 @@
+export { default as _chinese_ } from './chinese.js';
+export { default as _dutch_ } from './dutch.js';
 export { default as _english_ } from './english.js';
+export { default as _french_ } from './french.js';
+export { default as _german_ } from './german.js';
+export { default as _italian_ } from './italian.js';
+export { default as _korean_ } from './korean.js';
 export { default as _none_ } from './none.js';
+export { default as _portuguese_ } from './portuguese.js';
+export { default as _russian_ } from './russian.js';
+export { default as _spanish_ } from './spanish.js';
+export { default as _swedish_ } from './swedish.js';
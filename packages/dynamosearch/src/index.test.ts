@@ -1,9 +1,17 @@
 import { readFile, unlink } from 'node:fs/promises';
-import { test, expect, beforeAll } from 'vitest';
-import { DynamoDBClient, BatchWriteItemCommand, ScanCommand } from '@aws-sdk/client-dynamodb';
-import type { DynamoDBStreamEvent } from 'aws-lambda';
+import { test, expect, beforeAll, vi } from 'vitest';
+import { DynamoDBClient, BatchWriteItemCommand, CreateTableCommand, DeleteTableCommand, ListTablesCommand, PutItemCommand, ScanCommand } from '@aws-sdk/client-dynamodb';
+import type { AttributeValue, DynamoDBRecord, DynamoDBStreamEvent } from 'aws-lambda';
+import type { TokenFilter } from './analyzers/Analyzer.js';
+import CustomAnalyzer from './analyzers/CustomAnalyzer.js';
 import StandardAnalyzer from './analyzers/StandardAnalyzer.js';
-import DynamoSearch from './index.js';
+import EdgeNGramFilter from './filters/EdgeNGramFilter.js';
+import LowerCaseFilter from './filters/LowerCaseFilter.js';
+import StopFilter from './filters/StopFilter.js';
+import SynonymFilter from './filters/SynonymFilter.js';
+import NGramTokenizer from './tokenizers/NGramTokenizer.js';
+import StandardTokenizer from './tokenizers/StandardTokenizer.js';
+import DynamoSearch, { ConfigMismatchError, UnprocessedItemsError } from './index.js';
 
 beforeAll(async () => {
   const analyzer = await StandardAnalyzer.getInstance();
@@ -68,18 +76,22 @@ test('processRecords (INSERT)', async () => {
       s: { B: new Uint8Array([0]) },
       dc: { N: '1' },
       'tc:Message': { N: '2' },
+      f: { S: dynamosearch.getFingerprint() },
+      u: { N: expect.any(String) },
     },
     {
       p: { S: 'Message;new' },
       s: { B: new Uint8Array([0, 1, 0, 0, 0, 2, 232, 244, 177, 186, 163, 88, 89, 159]) },
       k: { S: 'N101' },
       h: { B: new Uint8Array([232]) },
+      l: { B: new Uint8Array([0]) },
     },
     {
       p: { S: 'Message;item!' },
       s: { B: new Uint8Array([0, 1, 0, 0, 0, 2, 232, 244, 177, 186, 163, 88, 89, 159]) },
       k: { S: 'N101' },
       h: { B: new Uint8Array([232]) },
+      l: { B: new Uint8Array([1]) },
     },
   ]));
 });
@@ -197,34 +209,152 @@ test('processRecords (MODIFY)', async () => {
       s: { B: new Uint8Array([0]) },
       dc: { N: '1' },
       'tc:Message': { N: '4' },
+      f: { S: dynamosearch.getFingerprint() },
+      u: { N: expect.any(String) },
     },
     {
       p: { S: 'Message;this' },
       s: { B: new Uint8Array([0, 1, 0, 0, 0, 4, 232, 244, 177, 186, 163, 88, 89, 159]) },
       k: { S: 'N101' },
       h: { B: new Uint8Array([232]) },
+      l: { B: new Uint8Array([0]) },
     },
     {
       p: { S: 'Message;item' },
       s: { B: new Uint8Array([0, 1, 0, 0, 0, 4, 232, 244, 177, 186, 163, 88, 89, 159]) },
       k: { S: 'N101' },
       h: { B: new Uint8Array([232]) },
+      l: { B: new Uint8Array([1]) },
     },
     {
       p: { S: 'Message;has' },
       s: { B: new Uint8Array([0, 1, 0, 0, 0, 4, 232, 244, 177, 186, 163, 88, 89, 159]) },
       k: { S: 'N101' },
       h: { B: new Uint8Array([232]) },
+      l: { B: new Uint8Array([2]) },
     },
     {
       p: { S: 'Message;changed' },
       s: { B: new Uint8Array([0, 1, 0, 0, 0, 4, 232, 244, 177, 186, 163, 88, 89, 159]) },
       k: { S: 'N101' },
       h: { B: new Uint8Array([232]) },
+      l: { B: new Uint8Array([3]) },
     },
   ]));
 });
 
+test('search (phrase)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  expect((await dynamosearch.search('"item has"')).items).toEqual([
+    {
+      keys: {
+        Id: { N: '101' },
+      },
+      score: expect.any(Number),
+    },
+  ]);
+  expect((await dynamosearch.search('"has item"')).items).toEqual([]);
+  expect((await dynamosearch.search('"this changed"')).items).toEqual([]);
+  expect((await dynamosearch.search('"this changed"~2')).items).toHaveLength(1);
+});
+
+test('search (phrase, multi-valued)', async () => {
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_multi_valued',
+    attributes: [{ name: 'Messages', analyzer: await StandardAnalyzer.getInstance() }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+  const words = Array.from({ length: 150 }, (_, i) => `w${i}`).join(' ');
+  await dynamosearch.reindex([
+    { Id: { N: '1' }, Messages: { L: [{ S: words }, { S: '...' }, { S: 'quick fox' }] } },
+    { Id: { N: '2' }, Messages: { SS: ['brown', 'quick fox'] } },
+  ]);
+  const ids = async (query: string) => (await dynamosearch.search(query)).items.map(item => item.keys.Id.N).sort();
+
+  expect(await ids('"quick fox"')).toEqual(['1', '2']);
+  // Phrases do not match across values, even after a value without tokens.
+  expect(await ids('"brown quick"')).toEqual([]);
+  expect(await ids('"w99 quick"')).toEqual([]);
+
+  await dynamosearch.deleteIndexTable();
+});
+
+test('search (boolean)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  expect((await dynamosearch.search('item has', { operator: 'and' })).items).toHaveLength(1);
+  expect((await dynamosearch.search('item missing', { operator: 'and' })).items).toEqual([]);
+  expect((await dynamosearch.search('item has missing', { minimumShouldMatch: 2 })).items).toHaveLength(1);
+  expect((await dynamosearch.search('item missing unknown', { minimumShouldMatch: '70%' })).items).toEqual([]);
+  expect((await dynamosearch.search('item missing unknown', { minimumShouldMatch: -2 })).items).toHaveLength(1);
+  expect((await dynamosearch.search('item -changed')).items).toEqual([]);
+  expect((await dynamosearch.search('item -"has item"')).items).toHaveLength(1);
+});
+
+test('search (query)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  const { items: [{ score }] } = await dynamosearch.search({ term: { attribute: 'Message', value: 'item' } });
+  expect((await dynamosearch.search({ match: { attribute: 'Message', query: 'Item has' } })).items).toHaveLength(1);
+  expect((await dynamosearch.search({ match: { attribute: 'Message', query: 'item missing', operator: 'and' } })).items).toEqual([]);
+  expect((await dynamosearch.search({ phrase: { attribute: 'Message', query: 'item has' } })).items).toHaveLength(1);
+  expect((await dynamosearch.search({
+    bool: {
+      must: [{ term: { attribute: 'Message', value: 'item' } }],
+      mustNot: [{ term: { attribute: 'Message', value: 'changed' } }],
+    },
+  })).items).toEqual([]);
+  expect((await dynamosearch.search({
+    bool: {
+      must: [{ term: { attribute: 'Message', value: 'item' } }],
+      should: [{ term: { attribute: 'Message', value: 'missing' } }],
+      filter: [{ term: { attribute: 'Message', value: 'has' } }],
+    },
+  })).items).toEqual([{ keys: { Id: { N: '101' } }, score: expect.closeTo(score) }]);
+  expect((await dynamosearch.search({
+    multiMatch: { query: 'item', attributes: ['Message^2'] },
+  })).items).toEqual([{ keys: { Id: { N: '101' } }, score: expect.closeTo(score * 2) }]);
+  expect((await dynamosearch.search({
+    boosting: {
+      positive: { term: { attribute: 'Message', value: 'item' } },
+      negative: { term: { attribute: 'Message', value: 'has' } },
+      negativeBoost: 0.5,
+    },
+  })).items).toEqual([{ keys: { Id: { N: '101' } }, score: expect.closeTo(score / 2) }]);
+  expect((await dynamosearch.search({
+    constantScore: { filter: { term: { attribute: 'Message', value: 'item' } }, boost: 2 },
+  })).items).toEqual([{ keys: { Id: { N: '101' } }, score: 2 }]);
+  expect((await dynamosearch.search({ queryString: { query: 'Message:(item OR missing) AND -changed' } })).items).toEqual([]);
+  expect((await dynamosearch.search({ queryString: { query: 'Message:"item has"^2' } })).items).toHaveLength(1);
+});
+
 test('reindex', async () => {
   const analyzer = await StandardAnalyzer.getInstance();
   const dynamosearch = new DynamoSearch({
@@ -253,18 +383,22 @@ test('reindex', async () => {
       s: { B: new Uint8Array([0]) },
       dc: { N: '1' },
       'tc:Message': { N: '2' },
+      f: { S: dynamosearch.getFingerprint() },
+      u: { N: expect.any(String) },
     },
     {
       p: { S: 'Message;new' },
       s: { B: new Uint8Array([0, 1, 0, 0, 0, 2, 232, 244, 177, 186, 163, 88, 89, 159]) },
       k: { S: 'N101' },
       h: { B: new Uint8Array([232]) },
+      l: { B: new Uint8Array([0]) },
     },
     {
       p: { S: 'Message;item!' },
       s: { B: new Uint8Array([0, 1, 0, 0, 0, 2, 232, 244, 177, 186, 163, 88, 89, 159]) },
       k: { S: 'N101' },
       h: { B: new Uint8Array([232]) },
+      l: { B: new Uint8Array([1]) },
     },
   ]));
 });
@@ -285,9 +419,9 @@ test('exportTokensAsFile', async () => {
   });
 
   const file = await readFile('./test.jsonl', 'utf8');
-  expect(file).toEqual(`{"Item":{"p":{"S":"Message;new"},"s":{"B":"AAEAAAAC6PSxuqNYWZ8="},"k":{"S":"N101"},"h":{"B":"6A=="}}}
-{"Item":{"p":{"S":"Message;item!"},"s":{"B":"AAEAAAAC6PSxuqNYWZ8="},"k":{"S":"N101"},"h":{"B":"6A=="}}}
-{"Item":{"p":{"S":"_"},"s":{"B":"AA=="},"dc":{"N":"2"},"tc:Message":{"N":"2"}}}
+  expect(file).toEqual(`{"Item":{"p":{"S":"Message;new"},"s":{"B":"AAEAAAAC6PSxuqNYWZ8="},"k":{"S":"N101"},"h":{"B":"6A=="},"l":{"B":"AA=="}}}
+{"Item":{"p":{"S":"Message;item!"},"s":{"B":"AAEAAAAC6PSxuqNYWZ8="},"k":{"S":"N101"},"h":{"B":"6A=="},"l":{"B":"AQ=="}}}
+{"Item":{"p":{"S":"_"},"s":{"B":"AA=="},"dc":{"N":"1"},"f":{"S":"${dynamosearch.getFingerprint()}"},"tc:Message":{"N":"2"}}}
 `);
 
   await unlink('./test.jsonl');
@@ -342,6 +476,805 @@ test('processRecords (REMOVE)', async () => {
       s: { B: new Uint8Array([0]) },
       dc: { N: '0' },
       'tc:Message': { N: '0' },
+      f: { S: dynamosearch.getFingerprint() },
+      u: { N: expect.any(String) },
     },
   ]));
 });
+
+test('search (pagination)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_pagination',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+  await dynamosearch.reindex([
+    { Id: { N: '1' }, Message: { S: 'apple apple apple' } },
+    { Id: { N: '2' }, Message: { S: 'apple banana' } },
+    { Id: { N: '3' }, Message: { S: 'apple banana' } },
+    { Id: { N: '4' }, Message: { S: 'apple banana cherry' } },
+  ]);
+
+  const pages = [];
+  let nextToken: string | undefined = undefined;
+  do {
+    const result: Awaited<ReturnType<typeof dynamosearch.search>> = await dynamosearch.search('apple', { maxItems: 3, nextToken });
+    pages.push(result.items.map(item => item.keys.Id.N));
+    nextToken = result.nextToken;
+  } while (nextToken);
+  expect(pages).toEqual([['1', '2', '3'], ['4']]);
+  await expect(dynamosearch.search('apple', { nextToken: 'invalid' })).rejects.toThrow('Invalid nextToken');
+
+  await dynamosearch.deleteIndexTable();
+});
+
+test('search (maxPostingsPerTerm)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_postings',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+  await dynamosearch.reindex([
+    { Id: { N: '1' }, Message: { S: 'apple apple apple' } },
+    { Id: { N: '2' }, Message: { S: 'apple apple banana' } },
+    { Id: { N: '3' }, Message: { S: 'apple banana' } },
+    { Id: { N: '4' }, Message: { S: 'banana cherry' } },
+  ]);
+
+  const full = await dynamosearch.search('apple');
+  expect(full.items).toHaveLength(3);
+  expect(full.cappedTerms).toEqual([]);
+  const capped = await dynamosearch.search('apple', { maxPostingsPerTerm: 2 });
+  expect(capped.items).toEqual(full.items.slice(0, 2));
+  expect(capped.cappedTerms).toEqual([{ attribute: 'Message', term: 'apple' }]);
+  for (const earlyTermination of [false, true]) {
+    const none = await dynamosearch.search('apple', { maxPostingsPerTerm: 0, earlyTermination });
+    expect(none.cappedTerms).toEqual([{ attribute: 'Message', term: 'apple' }]);
+  }
+
+  await dynamosearch.deleteIndexTable();
+});
+
+test('search (earlyTermination)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_early_termination',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+  // Long keys make the postings large enough for the reads saved to outweigh the capacity rounded up per request.
+  await dynamosearch.reindex(Array.from({ length: 500 }, (_, i) => ({
+    Id: { S: i.toString().padStart(200, '0') },
+    Message: { S: `${'common '.repeat(i % 7 + 1)}filler ${i % 50 === 0 ? 'rare' : 'word'}` },
+  })));
+
+  const full = await dynamosearch.search('common rare', { maxItems: 3 });
+  // The first search counts the postings of the head term and caches its document frequency.
+  const first = await dynamosearch.search('common rare', { maxItems: 3, earlyTermination: true });
+  const second = await dynamosearch.search('common rare', { maxItems: 3, earlyTermination: true });
+  expect(first.items).toEqual(full.items);
+  expect(second.items).toEqual(full.items);
+  expect(second.consumedCapacity.capacityUnits).toBeLessThan(full.consumedCapacity.capacityUnits);
+
+  // Completing many candidates would take more lookups than reading the rest of the terms.
+  const many = await dynamosearch.search('rare word common', { maxItems: 100 });
+  const manyEarly = await dynamosearch.search('rare word common', { maxItems: 100, earlyTermination: true });
+  expect(manyEarly.items).toEqual(many.items);
+  expect(manyEarly.consumedCapacity.capacityUnits).toBeLessThan(many.consumedCapacity.capacityUnits * 1.5);
+
+  // Capped terms score the same postings as without early termination.
+  for (const [query, maxItems, maxPostingsPerTerm] of [['common rare', 1, 250], ['rare filler', 3, 450]] as const) {
+    const capped = await dynamosearch.search(query, { maxItems, maxPostingsPerTerm });
+    const cappedEarly = await dynamosearch.search(query, { maxItems, maxPostingsPerTerm, earlyTermination: true });
+    expect(cappedEarly.items).toEqual(capped.items);
+    expect(cappedEarly.cappedTerms).toEqual(capped.cappedTerms);
+  }
+
+  const page = await dynamosearch.search('common rare', { maxItems: 3, earlyTermination: true, nextToken: second.nextToken });
+  const fullPage = await dynamosearch.search('common rare', { maxItems: 3, nextToken: full.nextToken });
+  expect(page.items).toEqual(fullPage.items);
+
+  await dynamosearch.deleteIndexTable();
+}, 30000);
+
+test('search (concurrency)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const options = {
+    indexTableName: 'dynamosearch_test_concurrency',
+    attributes: [{ name: 'Title', analyzer }, { name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' as const }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  };
+  const sequential = new DynamoSearch(options);
+  const parallel = new DynamoSearch({ ...options, concurrency: 4 });
+  await parallel.deleteIndexTable({ ifExists: true });
+  await parallel.createIndexTable();
+  await parallel.reindex(Array.from({ length: 20 }, (_, i) => ({
+    Id: { N: i.toString() },
+    Title: { S: ['red apple', 'green apple', 'yellow banana', 'red cherry'][i % 4] },
+    Message: { S: `${'fresh '.repeat(i % 3 + 1)}fruit number ${i} from the ${['north', 'south'][i % 2]} farm` },
+  })));
+
+  const query = 'red fresh "south farm" apple';
+  const expected = await sequential.search(query, { maxItems: 5, maxPostingsPerTerm: 10 });
+  const actual = await parallel.search(query, { maxItems: 5, maxPostingsPerTerm: 10 });
+  expect(actual.items).toEqual(expected.items);
+  expect(actual.nextToken).toEqual(expected.nextToken);
+  expect(actual.cappedTerms).toEqual(expected.cappedTerms);
+  expect(actual.consumedCapacity).toEqual(expected.consumedCapacity);
+
+  await parallel.deleteIndexTable();
+});
+
+test('insertTokens (UnprocessedItems)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const options = {
+    indexTableName: 'dynamosearch_test_unprocessed',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' as const }],
+    maxRetries: 2,
+  };
+  const requests: number[] = [];
+  // DynamoDB leaves the first item of every batch unprocessed.
+  const send = vi.spyOn(DynamoDBClient.prototype, 'send').mockImplementation(async (command) => {
+    const items = (command as BatchWriteItemCommand).input.RequestItems!.dynamosearch_test_unprocessed;
+    requests.push(items.length);
+    return { UnprocessedItems: { dynamosearch_test_unprocessed: items.slice(0, 1) } };
+  });
+  try {
+    const dynamosearch = new DynamoSearch(options);
+    const error = await dynamosearch.insertTokens({ Id: { N: '1' }, Message: { S: 'Hello' } }).catch(error => error);
+    expect(error).toBeInstanceOf(UnprocessedItemsError);
+    expect(error.keys).toEqual([{ p: { S: 'Message;hello' }, s: { B: expect.any(Buffer) } }]);
+    expect(requests).toEqual([1, 1, 1]);
+
+    send.mockImplementation(async (command) => {
+      const items = (command as BatchWriteItemCommand).input.RequestItems!.dynamosearch_test_unprocessed;
+      requests.push(items.length);
+      return { UnprocessedItems: requests.length < 6 ? { dynamosearch_test_unprocessed: items.slice(0, 1) } : {} };
+    });
+    await dynamosearch.insertTokens({ Id: { N: '1' }, Message: { S: 'Hello World' } });
+    expect(requests).toEqual([1, 1, 1, 2, 1, 1]);
+  } finally {
+    send.mockRestore();
+  }
+});
+
+test('processRecords (reportBatchItemFailures)', async () => {
+  const record = (id: string, eventName: 'INSERT' | 'MODIFY' | 'REMOVE', message?: string): DynamoDBRecord => ({
+    eventID: id,
+    eventName,
+    eventVersion: '1.0',
+    eventSource: 'aws:dynamodb',
+    awsRegion: 'us-east-1',
+    dynamodb: {
+      Keys: { Id: { N: id } },
+      NewImage: message === undefined ? undefined : { Id: { N: id }, Message: { S: message } },
+      SequenceNumber: `${id}00`,
+      StreamViewType: 'NEW_AND_OLD_IMAGES',
+    },
+    eventSourceARN: 'stream-ARN',
+  });
+  const analyzer = await StandardAnalyzer.getInstance();
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_failures',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+
+  // The second record is missing its new image, so it cannot be indexed.
+  const records = [record('1', 'INSERT', 'first item'), record('2', 'INSERT'), record('3', 'INSERT', 'third item')];
+  await expect(dynamosearch.processRecords(records)).rejects.toThrow();
+  await dynamosearch.deleteIndexTable();
+  await dynamosearch.createIndexTable();
+
+  const result = await dynamosearch.processRecords(records, { reportBatchItemFailures: true });
+  expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: '200' }] });
+  expect(await dynamosearch.getMetadata()).toEqual({ docCount: 1, tokenCount: new Map([['Message', 2]]) });
+  const { items } = await dynamosearch.search('item');
+  expect(items.map(item => item.keys)).toEqual([{ Id: { N: '1' } }]);
+
+  await dynamosearch.deleteIndexTable();
+});
+
+test('processRecords (MODIFY, incremental)', async () => {
+  const record = (eventName: 'INSERT' | 'MODIFY', newImage: Record<string, AttributeValue>, oldImage?: Record<string, AttributeValue>): DynamoDBRecord => ({
+    eventName,
+    dynamodb: {
+      Keys: { Id: { N: '1' } },
+      NewImage: newImage,
+      OldImage: oldImage,
+      StreamViewType: 'NEW_AND_OLD_IMAGES',
+    },
+  });
+  const analyzer = await StandardAnalyzer.getInstance();
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_incremental',
+    attributes: [{ name: 'Title', analyzer }, { name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+
+  const v1 = { Id: { N: '1' }, Title: { S: 'Dessert' }, Message: { S: 'red apple pie' }, Price: { N: '5' } };
+  const v2 = { ...v1, Price: { N: '6' } };
+  const v3 = { ...v2, Message: { S: 'red apple tart' } };
+  const v4 = { ...v3, Message: { S: 'red apple tart tart' } };
+  await dynamosearch.processRecords([record('INSERT', v1)]);
+
+  const send = vi.spyOn(DynamoDBClient.prototype, 'send');
+  const getWriteRequests = () => send.mock.calls
+    .map(([command]) => command)
+    .filter(command => command instanceof BatchWriteItemCommand)
+    .flatMap(command => command.input.RequestItems!.dynamosearch_test_incremental)
+    .map(request => request.PutRequest ? `put ${request.PutRequest.Item!.p.S}` : `delete ${request.DeleteRequest!.Key!.p.S}`);
+  try {
+    // Only a non-indexed attribute changed.
+    await dynamosearch.processRecords([record('MODIFY', v2, v1)]);
+    expect(getWriteRequests()).toEqual([]);
+    // A term changed, while the occurrences and the token count of the others stayed the same.
+    await dynamosearch.processRecords([record('MODIFY', v3, v2)]);
+    expect(getWriteRequests()).toEqual(['put Message;tart', 'delete Message;pie']);
+    send.mockClear();
+    // The token count changed, so every posting of the attribute moves to a new sort key.
+    await dynamosearch.processRecords([record('MODIFY', v4, v3)]);
+    expect(getWriteRequests().sort()).toEqual([
+      'delete Message;apple',
+      'delete Message;red',
+      'delete Message;tart',
+      'put Message;apple',
+      'put Message;red',
+      'put Message;tart',
+    ]);
+  } finally {
+    send.mockRestore();
+  }
+
+  expect(await dynamosearch.getMetadata()).toEqual({ docCount: 1, tokenCount: new Map([['Title', 1], ['Message', 4]]) });
+  const { items } = await dynamosearch.search('tart', { attributes: ['Message'] });
+  expect(items).toHaveLength(1);
+  expect((await dynamosearch.search('pie')).items).toHaveLength(0);
+
+  await dynamosearch.deleteIndexTable();
+});
+
+test('processRecords (versioning)', async () => {
+  const record = (eventName: 'INSERT' | 'MODIFY' | 'REMOVE', sequenceNumber: string, newImage?: Record<string, AttributeValue>, oldImage?: Record<string, AttributeValue>): DynamoDBRecord => ({
+    eventName,
+    dynamodb: {
+      Keys: { Id: { N: '1' } },
+      NewImage: newImage,
+      OldImage: oldImage,
+      SequenceNumber: sequenceNumber,
+      StreamViewType: 'NEW_AND_OLD_IMAGES',
+    },
+  });
+  const analyzer = await StandardAnalyzer.getInstance();
+  const options = {
+    indexTableName: 'dynamosearch_test_versioning',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' as const }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  };
+  const v1 = { Id: { N: '1' }, Message: { S: 'apple' }, Version: { N: '1' } };
+  const v2 = { Id: { N: '1' }, Message: { S: 'banana' }, Version: { N: '2' } };
+  const dynamosearch = new DynamoSearch({ ...options, versioning: 'sequenceNumber' });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+
+  await dynamosearch.processRecords([record('INSERT', '100000000000000000001', v1), record('MODIFY', '200000000000000000001', v2, v1)]);
+  // A retried batch delivers the records again, along with the next one.
+  await dynamosearch.processRecords([record('INSERT', '100000000000000000001', v1), record('MODIFY', '200000000000000000001', v2, v1)]);
+  await dynamosearch.processRecords([record('INSERT', '100000000000000000001', v1)]);
+  expect((await dynamosearch.search('apple')).items).toHaveLength(0);
+  expect((await dynamosearch.search('banana')).items).toHaveLength(1);
+  expect(await dynamosearch.getMetadata()).toEqual({ docCount: 1, tokenCount: new Map([['Message', 1]]) });
+  // Records older than a removal are not indexed again.
+  await dynamosearch.processRecords([record('REMOVE', '300000000000000000001', undefined, v2)]);
+  await dynamosearch.processRecords([record('MODIFY', '200000000000000000001', v2, v1)]);
+  expect((await dynamosearch.search('banana')).items).toHaveLength(0);
+  expect(await dynamosearch.getMetadata()).toEqual({ docCount: 0, tokenCount: new Map([['Message', 0]]) });
+
+  const byAttribute = new DynamoSearch({ ...options, versioning: { attribute: 'Version' } });
+  await byAttribute.deleteIndexTable();
+  await byAttribute.createIndexTable();
+  await byAttribute.processRecords([record('INSERT', '100000000000000000001', v1), record('MODIFY', '200000000000000000001', v2, v1)]);
+  await byAttribute.processRecords([record('REMOVE', '300000000000000000001', undefined, v2)]);
+  // An image older than the removed one is not indexed again.
+  await byAttribute.processRecords([record('MODIFY', '200000000000000000001', v2, v1), record('INSERT', '100000000000000000001', v1)]);
+  expect((await byAttribute.search('banana')).items).toHaveLength(0);
+  expect(await byAttribute.getMetadata()).toEqual({ docCount: 0, tokenCount: new Map([['Message', 0]]) });
+  // A re-created item is indexed even though its version starts over, since its records follow the removal.
+  await byAttribute.processRecords([record('INSERT', '400000000000000000001', v1)]);
+  expect((await byAttribute.search('apple')).items).toHaveLength(1);
+  await byAttribute.processRecords([record('INSERT', '400000000000000000001', v1), record('REMOVE', '300000000000000000001', undefined, v2)]);
+  expect(await byAttribute.getMetadata()).toEqual({ docCount: 1, tokenCount: new Map([['Message', 1]]) });
+
+  await dynamosearch.deleteIndexTable();
+});
+
+test('getMetadata (metadataShards)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const options = {
+    indexTableName: 'dynamosearch_test_shards',
+    attributes: [{ name: 'Message', analyzer, shortName: 'm' }],
+    keys: [{ name: 'Id', type: 'HASH' as const }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  };
+  const single = new DynamoSearch(options);
+  await single.deleteIndexTable({ ifExists: true });
+  await single.createIndexTable();
+  await single.reindex([{ Id: { N: '0' }, Message: { S: 'indexed before sharding' } }]);
+
+  // The counts of the original metadata item are kept when shards are added.
+  const sharded = new DynamoSearch({ ...options, metadataShards: 4 });
+  for (let i = 1; i <= 8; i++) {
+    await sharded.reindex([{ Id: { N: i.toString() }, Message: { S: `item ${i}` } }]);
+  }
+  expect(await sharded.getMetadata()).toEqual({ docCount: 9, tokenCount: new Map([['Message', 19]]) });
+
+  const client = new DynamoDBClient({
+    endpoint: 'http://localhost:8000',
+  });
+  const { Items } = await client.send(new ScanCommand({
+    TableName: 'dynamosearch_test_shards',
+    FilterExpression: 'begins_with(p, :prefix) AND attribute_exists(dc)',
+    ExpressionAttributeValues: { ':prefix': { S: '_' } },
+  }));
+  expect(Items!.map(item => item.p.S)).toEqual(expect.arrayContaining(['_']));
+  expect(Items!.every(item => ['_', '_1', '_2', '_3'].includes(item.p.S!))).toBe(true);
+
+  await sharded.deleteIndexTable();
+});
+
+test('constructor (reserved attribute names)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const options = { indexTableName: 'dynamosearch_test', keys: [{ name: 'Id', type: 'HASH' as const }] };
+  expect(() => new DynamoSearch({ ...options, attributes: [{ name: '_type', analyzer }] })).toThrow('Attribute names cannot start with "_": _type');
+  expect(() => new DynamoSearch({ ...options, attributes: [{ name: 'Type', analyzer, shortName: '_' }] })).toThrow('Attribute short names cannot start with "_": _');
+  expect(() => new DynamoSearch({ ...options, attributes: [{ name: '_type', analyzer, shortName: 't' }] })).not.toThrow();
+});
+
+test('search (configMismatch)', async () => {
+  const analyzer = await StandardAnalyzer.getInstance();
+  const options = {
+    indexTableName: 'dynamosearch_test_fingerprint',
+    attributes: [{ name: 'Message', analyzer, shortName: 'm' }],
+    keys: [{ name: 'Id', type: 'HASH' as const }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  };
+  const indexer = new DynamoSearch(options);
+  await indexer.deleteIndexTable({ ifExists: true });
+  await indexer.createIndexTable();
+  await indexer.reindex([{ Id: { N: '1' }, Message: { S: 'Hello World' } }]);
+
+  const warn = vi.fn();
+  expect((await new DynamoSearch({ ...options, configMismatch: 'error' }).search('hello')).items).toHaveLength(1);
+  // Analyzers are not compared by their class names, which minified bundles may not share.
+  const custom = new CustomAnalyzer({ tokenizer: await StandardTokenizer.getInstance(), filters: [LowerCaseFilter(), StopFilter({ stopWords: '_none_' })] });
+  const minified = new DynamoSearch({ ...options, attributes: [{ name: 'Message', analyzer: custom, shortName: 'm' }], logger: { warn } });
+  expect(minified.getFingerprint()).toBe(indexer.getFingerprint());
+  expect((await minified.search('hello')).items).toHaveLength(1);
+  expect(warn).not.toHaveBeenCalled();
+
+  // The short name differs, so the postings of the indexer cannot be found.
+  const renamed = new DynamoSearch({ ...options, attributes: [{ name: 'Message', analyzer }], logger: { warn } });
+  expect(renamed.getFingerprint()).not.toBe(indexer.getFingerprint());
+  expect((await renamed.search('hello')).items).toHaveLength(0);
+  expect(warn).toHaveBeenCalledWith(expect.stringContaining(`fingerprint ${indexer.getFingerprint()}, expected ${renamed.getFingerprint()}`));
+
+  // Analyzers are compared by their options too, even those that leave the sample text as it is.
+  const fingerprint = async (filters: TokenFilter[]) => new DynamoSearch({
+    ...options,
+    attributes: [{ name: 'Message', analyzer: new CustomAnalyzer({ tokenizer: await StandardTokenizer.getInstance(), filters }), shortName: 'm' }],
+  }).getFingerprint();
+  expect(await fingerprint([LowerCaseFilter(), StopFilter({ stopWords: ['zebra'] })])).not.toBe(await fingerprint([LowerCaseFilter(), StopFilter({ stopWords: ['yak'] })]));
+  expect(await fingerprint([SynonymFilter({ synonyms: ['tv, television'] })])).not.toBe(await fingerprint([SynonymFilter({ synonyms: ['tv, telly'] })]));
+  expect(await fingerprint([SynonymFilter({ synonyms: ['tv, television'] })])).toBe(await fingerprint([SynonymFilter({ synonyms: ['tv, television'] })]));
+
+  const stopWords = new DynamoSearch({ ...options, attributes: [{ name: 'Message', analyzer: await StandardAnalyzer.getInstance({ stopWords: '_english_' }), shortName: 'm' }], configMismatch: 'error' });
+  await expect(stopWords.search('hello')).rejects.toThrow(ConfigMismatchError);
+  const ignored = new DynamoSearch({ ...options, attributes: [{ name: 'Message', analyzer }], configMismatch: 'ignore', logger: { warn } });
+  await ignored.search('hello');
+  expect(warn).toHaveBeenCalledTimes(1);
+
+  // The shard updated last holds the fingerprint of the latest indexer.
+  await stopWords.reindex([{ Id: { N: '2' }, Message: { S: 'Hello again' } }]);
+  expect((await stopWords.search('hello')).items).toHaveLength(2);
+  await expect(new DynamoSearch({ ...options, configMismatch: 'error' }).search('hello')).rejects.toThrow(ConfigMismatchError);
+
+  await indexer.deleteIndexTable();
+});
+
+test('search (searchAnalyzer)', async () => {
+  const analyzer = new CustomAnalyzer({
+    tokenizer: await NGramTokenizer.getInstance({ minGram: 2, maxGram: 10 }),
+    filters: [LowerCaseFilter()],
+  });
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_search_analyzer',
+    attributes: [{ name: 'Message', analyzer, searchAnalyzer: await StandardAnalyzer.getInstance() }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+  await dynamosearch.reindex([{ Id: { N: '1' }, Message: { S: 'Quickest' } }, { Id: { N: '2' }, Message: { S: 'Quack' } }]);
+
+  // Queries are not split into n-grams, so that they only match documents containing them as a whole.
+  expect((await dynamosearch.search('QUICK')).items).toEqual([{ keys: { Id: { N: '1' } }, score: expect.any(Number) }]);
+  expect((await dynamosearch.search({ match: { attribute: 'Message', query: 'quack' } })).items).toEqual([{ keys: { Id: { N: '2' } }, score: expect.any(Number) }]);
+  expect((await dynamosearch.search({ queryString: { query: 'Message:"quick"' } })).items).toEqual([{ keys: { Id: { N: '1' } }, score: expect.any(Number) }]);
+  expect((await dynamosearch.search('qu')).items).toHaveLength(2);
+
+  await dynamosearch.deleteIndexTable();
+});
+
+test('search (synonyms)', async () => {
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_synonyms',
+    attributes: [{
+      name: 'Message',
+      analyzer: await StandardAnalyzer.getInstance(),
+      searchAnalyzer: new CustomAnalyzer({
+        tokenizer: await StandardTokenizer.getInstance(),
+        filters: [LowerCaseFilter(), SynonymFilter({ synonyms: ['tv, television', 'smartphone, smart phone', 'スマホ, スマートフォン'] })],
+      }),
+    }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+  await dynamosearch.reindex([
+    { Id: { N: '1' }, Message: { S: 'tv stand' } },
+    { Id: { N: '2' }, Message: { S: 'television stand' } },
+    { Id: { N: '3' }, Message: { S: 'tv television' } },
+    { Id: { N: '4' }, Message: { S: 'smart phone case' } },
+    { Id: { N: '5' }, Message: { S: 'smartphone case' } },
+    { Id: { N: '6' }, Message: { S: 'phone smart case' } },
+    { Id: { N: '7' }, Message: { S: 'スマートフォン' } },
+  ]);
+  const ids = (result: { items: { keys: Record<string, any> }[] }) => result.items.map(item => item.keys.Id.N).sort();
+
+  expect(ids(await dynamosearch.search('TV'))).toEqual(['1', '2', '3']);
+  expect(ids(await dynamosearch.search('smartphone'))).toEqual(['4', '5']);
+  // Words with a multi-word synonym are matched as a phrase.
+  expect(ids(await dynamosearch.search('smart phone'))).toEqual(['4', '5']);
+  expect(ids(await dynamosearch.search('"smartphone case"'))).toEqual(['4', '5']);
+  expect(ids(await dynamosearch.search({ queryString: { query: 'Message:(tv AND stand)' } }))).toEqual(['1', '2']);
+  expect(ids(await dynamosearch.search('スマホ'))).toEqual(['7']);
+
+  // The alternatives are scored as a single term, instead of adding up the scores of each of them.
+  const synonym = await dynamosearch.search({ synonym: { attribute: 'Message', terms: ['tv', 'television'] } });
+  const sum = await dynamosearch.search({ bool: { should: [{ term: { attribute: 'Message', value: 'tv' } }, { term: { attribute: 'Message', value: 'television' } }] } });
+  expect((await dynamosearch.search('tv')).items).toEqual(synonym.items);
+  const score = (result: typeof synonym, id: string) => result.items.find(item => item.keys.Id.N === id)!.score;
+  expect(score(synonym, '3')).toBeLessThan(score(sum, '3'));
+  expect(score(synonym, '3')).toBeGreaterThan(score(synonym, '1'));
+
+  await dynamosearch.deleteIndexTable();
+});
+
+test('search (edge n-grams)', async () => {
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_edge_ngrams',
+    attributes: [{
+      name: 'Message',
+      analyzer: new CustomAnalyzer({
+        tokenizer: await StandardTokenizer.getInstance(),
+        filters: [LowerCaseFilter(), EdgeNGramFilter({ minGram: 1, maxGram: 10 })],
+      }),
+      searchAnalyzer: await StandardAnalyzer.getInstance(),
+    }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+  await dynamosearch.reindex([
+    { Id: { N: '1' }, Message: { S: 'Quick brown fox' } },
+    { Id: { N: '2' }, Message: { S: 'Quiet fox' } },
+    { Id: { N: '3' }, Message: { S: 'Brown dog' } },
+  ]);
+
+  const search = async (query: string) => (await dynamosearch.search({ queryString: { query } })).items.map(item => item.keys.Id.N).sort();
+  // Only prefixes of words are indexed.
+  expect(await search('Message:qui')).toEqual(['1', '2']);
+  expect(await search('Message:row')).toEqual([]);
+  // The prefixes of a word share its position, so that phrases of prefixes match.
+  expect(await search('Message:"qui bro"')).toEqual(['1']);
+  expect(await search('Message:"bro qui"')).toEqual([]);
+
+  await dynamosearch.deleteIndexTable();
+});
+
+test('verify', async () => {
+  const client = new DynamoDBClient({
+    endpoint: 'http://localhost:8000',
+  });
+  await client.send(new DeleteTableCommand({ TableName: 'dynamosearch_test_verify_source' })).catch(() => {});
+  await client.send(new CreateTableCommand({
+    TableName: 'dynamosearch_test_verify_source',
+    AttributeDefinitions: [{ AttributeName: 'Id', AttributeType: 'N' }],
+    KeySchema: [{ AttributeName: 'Id', KeyType: 'HASH' }],
+    BillingMode: 'PAY_PER_REQUEST',
+  }));
+  await client.send(new BatchWriteItemCommand({
+    RequestItems: {
+      dynamosearch_test_verify_source: [
+        { PutRequest: { Item: { Id: { N: '1' }, Message: { S: 'first item' } } } },
+        { PutRequest: { Item: { Id: { N: '2' }, Message: { S: 'hello there' } } } },
+        { PutRequest: { Item: { Id: { N: '3' }, Message: { S: 'third item' } } } },
+      ],
+    },
+  }));
+
+  const analyzer = await StandardAnalyzer.getInstance();
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_verify',
+    attributes: [{ name: 'Message', analyzer, shortName: 'm' }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+  await dynamosearch.reindex([
+    { Id: { N: '1' }, Message: { S: 'first item' } },
+    { Id: { N: '2' }, Message: { S: 'hello hello world' } },
+    { Id: { N: '4' }, Message: { S: 'deleted document' } },
+  ]);
+
+  const report = await dynamosearch.verify({ sourceTableName: 'dynamosearch_test_verify_source' });
+  expect(report.scannedCount).toBe(3);
+  expect(report.missing).toEqual(expect.arrayContaining([
+    { keys: { Id: { N: '2' } }, attribute: 'Message', token: 'there' },
+    { keys: { Id: { N: '3' } }, attribute: 'Message', token: 'third' },
+    { keys: { Id: { N: '3' } }, attribute: 'Message', token: 'item' },
+  ]));
+  expect(report.missing).toHaveLength(3);
+  expect(report.stale).toEqual([{ keys: { Id: { N: '2' } }, attribute: 'Message', token: 'hello' }]);
+  expect(report.extra).toEqual(expect.arrayContaining([
+    { keys: { Id: { N: '2' } }, attribute: 'Message', token: 'world' },
+    { keys: { Id: { N: '4' } }, attribute: 'Message', token: 'deleted' },
+    { keys: { Id: { N: '4' } }, attribute: 'Message', token: 'document' },
+  ]));
+  expect(report.extra).toHaveLength(3);
+  expect(report.metadata).toEqual({
+    docCount: { stored: 3, expected: 3 },
+    tokenCount: new Map([['Message', { stored: 7, expected: 6 }]]),
+  });
+
+  await dynamosearch.verify({ sourceTableName: 'dynamosearch_test_verify_source', repair: true });
+  expect(await dynamosearch.verify({ sourceTableName: 'dynamosearch_test_verify_source' })).toEqual({
+    scannedCount: 3,
+    missing: [],
+    extra: [],
+    stale: [],
+    metadata: {
+      docCount: { stored: 3, expected: 3 },
+      tokenCount: new Map([['Message', { stored: 6, expected: 6 }]]),
+    },
+  });
+  const { items } = await dynamosearch.search('there');
+  expect(items.map(item => item.keys)).toEqual([{ Id: { N: '2' } }]);
+
+  await dynamosearch.deleteIndexTable();
+  await client.send(new DeleteTableCommand({ TableName: 'dynamosearch_test_verify_source' }));
+});
+
+test('rebuildIndexTable', async () => {
+  const client = new DynamoDBClient({
+    endpoint: 'http://localhost:8000',
+  });
+  await client.send(new DeleteTableCommand({ TableName: 'dynamosearch_test_rebuild_source' })).catch(() => {});
+  await client.send(new CreateTableCommand({
+    TableName: 'dynamosearch_test_rebuild_source',
+    AttributeDefinitions: [{ AttributeName: 'Id', AttributeType: 'N' }],
+    KeySchema: [{ AttributeName: 'Id', KeyType: 'HASH' }],
+    BillingMode: 'PAY_PER_REQUEST',
+  }));
+  await client.send(new BatchWriteItemCommand({
+    RequestItems: {
+      dynamosearch_test_rebuild_source: [
+        { PutRequest: { Item: { Id: { N: '1' }, Message: { S: 'Hello World' } } } },
+        { PutRequest: { Item: { Id: { N: '2' }, Message: { S: 'Hello DynamoDB' } } } },
+      ],
+    },
+  }));
+
+  const analyzer = await StandardAnalyzer.getInstance();
+  const options = {
+    indexTableName: 'dynamosearch_test_rebuild',
+    aliasTableName: 'dynamosearch_test_aliases',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' as const }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  };
+  const dynamosearch = new DynamoSearch(options);
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+  await dynamosearch.reindex([{ Id: { N: '1' }, Message: { S: 'Hello World' } }]);
+  expect((await dynamosearch.search('hello')).consumedCapacity.tableName).toBe('dynamosearch_test_rebuild_v1');
+
+  // Item 2 changes after the backfill scanned it, and the stream record is processed while the new table is built.
+  const send = DynamoDBClient.prototype.send as (this: DynamoDBClient, command: any) => Promise<any>;
+  let changed = false;
+  const spy = vi.spyOn(DynamoDBClient.prototype, 'send').mockImplementation(async function (this: DynamoDBClient, command: any) {
+    const output = await send.call(this, command);
+    if (!changed && command instanceof ScanCommand && command.input.TableName === 'dynamosearch_test_rebuild_source') {
+      changed = true;
+      await send.call(this, new PutItemCommand({
+        TableName: 'dynamosearch_test_rebuild_source',
+        Item: { Id: { N: '2' }, Message: { S: 'Goodbye DynamoDB' } },
+      }));
+      await dynamosearch.processRecords([{
+        eventName: 'MODIFY',
+        dynamodb: {
+          Keys: { Id: { N: '2' } },
+          NewImage: { Id: { N: '2' }, Message: { S: 'Goodbye DynamoDB' } },
+          SequenceNumber: '100',
+        },
+      }]);
+    }
+    return output;
+  });
+  try {
+    expect(await dynamosearch.rebuildIndexTable({
+      sourceTableName: 'dynamosearch_test_rebuild_source',
+    })).toEqual({ tableName: 'dynamosearch_test_rebuild_v2', previousTableName: 'dynamosearch_test_rebuild_v1' });
+  } finally {
+    spy.mockRestore();
+  }
+
+  const { items, consumedCapacity } = await dynamosearch.search('goodbye hello');
+  expect(consumedCapacity.tableName).toBe('dynamosearch_test_rebuild_v2');
+  expect(items.map(item => item.keys)).toEqual(expect.arrayContaining([{ Id: { N: '1' } }, { Id: { N: '2' } }]));
+  expect((await dynamosearch.search('hello')).items.map(item => item.keys)).toEqual([{ Id: { N: '1' } }]);
+  expect(await dynamosearch.getMetadata()).toEqual({ docCount: 2, tokenCount: new Map([['Message', 4]]) });
+  // The consistent read of the alias is counted as well.
+  const direct = new DynamoSearch({ ...options, indexTableName: 'dynamosearch_test_rebuild_v2', aliasTableName: undefined });
+  expect((await dynamosearch.search('hello')).consumedCapacity.capacityUnits).toBe((await direct.search('hello')).consumedCapacity.capacityUnits + 1);
+
+  // The previous table is kept until it is deleted separately, since searches may still be reading it.
+  expect((await client.send(new ListTablesCommand({}))).TableNames).toContain('dynamosearch_test_rebuild_v1');
+  await expect(dynamosearch.deletePreviousIndexTable('dynamosearch_test_rebuild_v2')).rejects.toThrow('Index table in use: dynamosearch_test_rebuild_v2');
+  await dynamosearch.deletePreviousIndexTable('dynamosearch_test_rebuild_v1');
+  expect((await client.send(new ListTablesCommand({}))).TableNames).not.toContain('dynamosearch_test_rebuild_v1');
+
+  // A failed build deletes the new table and leaves the alias as it was, so that the index can be rebuilt again.
+  await expect(dynamosearch.rebuildIndexTable({ sourceTableName: 'dynamosearch_test_rebuild_missing' })).rejects.toThrow();
+  expect((await client.send(new ListTablesCommand({}))).TableNames).not.toContain('dynamosearch_test_rebuild_v3');
+  expect((await dynamosearch.search('hello')).consumedCapacity.tableName).toBe('dynamosearch_test_rebuild_v2');
+
+  // A build interrupted before it could clean up itself leaves its table, which abortRebuild deletes.
+  await new DynamoSearch({ ...options, indexTableName: 'dynamosearch_test_rebuild_v4', aliasTableName: undefined }).createIndexTable();
+  await expect(dynamosearch.rebuildIndexTable({ sourceTableName: 'dynamosearch_test_rebuild_source' })).rejects.toThrow();
+  expect(await dynamosearch.abortRebuild()).toEqual({ tableName: 'dynamosearch_test_rebuild_v4' });
+  expect((await dynamosearch.rebuildIndexTable({ sourceTableName: 'dynamosearch_test_rebuild_source' })).tableName).toBe('dynamosearch_test_rebuild_v4');
+
+  await dynamosearch.deleteIndexTable();
+  await new DynamoSearch({ ...options, indexTableName: 'dynamosearch_test_rebuild_v2', aliasTableName: undefined }).deleteIndexTable({ ifExists: true });
+  await client.send(new DeleteTableCommand({ TableName: 'dynamosearch_test_rebuild_source' }));
+});
+
+test('backfill', async () => {
+  const client = new DynamoDBClient({
+    endpoint: 'http://localhost:8000',
+  });
+  await client.send(new DeleteTableCommand({ TableName: 'dynamosearch_test_backfill_source' })).catch(() => {});
+  await client.send(new CreateTableCommand({
+    TableName: 'dynamosearch_test_backfill_source',
+    AttributeDefinitions: [{ AttributeName: 'Id', AttributeType: 'N' }],
+    KeySchema: [{ AttributeName: 'Id', KeyType: 'HASH' }],
+    BillingMode: 'PAY_PER_REQUEST',
+  }));
+  for (let i = 0; i < 30; i += 10) {
+    await client.send(new BatchWriteItemCommand({
+      RequestItems: {
+        dynamosearch_test_backfill_source: Array.from({ length: 10 }, (_, j) => ({
+          PutRequest: { Item: { Id: { N: (i + j).toString() }, Message: { S: `item ${i + j}` } } },
+        })),
+      },
+    }));
+  }
+
+  const analyzer = await StandardAnalyzer.getInstance();
+  const dynamosearch = new DynamoSearch({
+    indexTableName: 'dynamosearch_test_backfill',
+    attributes: [{ name: 'Message', analyzer }],
+    keys: [{ name: 'Id', type: 'HASH' }],
+    dynamoDBClientConfig: {
+      endpoint: 'http://localhost:8000',
+    },
+  });
+  await dynamosearch.deleteIndexTable({ ifExists: true });
+  await dynamosearch.createIndexTable();
+
+  // The backfill is interrupted by a failure after a few pages have been indexed.
+  const send = DynamoDBClient.prototype.send as (this: DynamoDBClient, command: any) => Promise<any>;
+  let scans = 0;
+  const spy = vi.spyOn(DynamoDBClient.prototype, 'send').mockImplementation(async function (this: DynamoDBClient, command: any) {
+    if (command instanceof ScanCommand && ++scans === 5) throw new Error('Interrupted');
+    return send.call(this, command);
+  });
+  try {
+    await expect(dynamosearch.backfill({ sourceTableName: 'dynamosearch_test_backfill_source', segments: 3, pageSize: 4 })).rejects.toThrow('Interrupted');
+  } finally {
+    spy.mockRestore();
+  }
+  await expect(dynamosearch.backfill({ sourceTableName: 'dynamosearch_test_backfill_source', segments: 2 })).rejects.toThrow('with 3 segments is in progress');
+
+  const { scannedCount } = await dynamosearch.backfill({ sourceTableName: 'dynamosearch_test_backfill_source', segments: 3, pageSize: 4 });
+  expect(scannedCount).toBeLessThan(30);
+  const report = await dynamosearch.verify({ sourceTableName: 'dynamosearch_test_backfill_source' });
+  expect([report.missing, report.extra, report.stale]).toEqual([[], [], []]);
+  expect(await dynamosearch.getMetadata()).toEqual({ docCount: 30, tokenCount: new Map([['Message', 60]]) });
+
+  // Every item deletes and writes 2 postings, so 120 units are written at 400 units per second.
+  const start = Date.now();
+  expect(await dynamosearch.backfill({ sourceTableName: 'dynamosearch_test_backfill_source', writeCapacity: 400 })).toEqual({ scannedCount: 30 });
+  expect(Date.now() - start).toBeGreaterThanOrEqual(250);
+  expect(await dynamosearch.getMetadata()).toEqual({ docCount: 30, tokenCount: new Map([['Message', 60]]) });
+
+  // Items over 1 KB consume several units each, so when every posting consumes 4 units, 480 units are written at 1600
+  // units per second.
+  const scale = vi.spyOn(DynamoDBClient.prototype, 'send').mockImplementation(async function (this: DynamoDBClient, command: any) {
+    const output: any = await send.call(this, command);
+    if (!(command instanceof BatchWriteItemCommand)) return output;
+    return { ...output, ConsumedCapacity: output.ConsumedCapacity.map((capacity: any) => ({ ...capacity, CapacityUnits: capacity.CapacityUnits * 4 })) };
+  });
+  try {
+    const start = Date.now();
+    expect(await dynamosearch.backfill({ sourceTableName: 'dynamosearch_test_backfill_source', writeCapacity: 1600 })).toEqual({ scannedCount: 30 });
+    expect(Date.now() - start).toBeGreaterThanOrEqual(250);
+  } finally {
+    scale.mockRestore();
+  }
+
+  await dynamosearch.deleteIndexTable();
+  await client.send(new DeleteTableCommand({ TableName: 'dynamosearch_test_backfill_source' }));
+});
@@ -2,26 +2,49 @@ import { createHash } from 'node:crypto';
 import { appendFile } from 'node:fs/promises';
 import {
   DynamoDBClient,
+  BatchGetItemCommand,
   BatchWriteItemCommand,
+  ConditionalCheckFailedException,
   CreateTableCommand,
+  DeleteItemCommand,
   DeleteTableCommand,
   GetItemCommand,
+  PutItemCommand,
   QueryCommand,
   ResourceInUseException,
   ResourceNotFoundException,
+  ScanCommand,
   UpdateItemCommand,
+  waitUntilTableExists,
   type AttributeValue,
   type CreateTableCommandInput,
   type DynamoDBClientConfig,
+  type QueryCommandOutput,
+  type WriteRequest,
 } from '@aws-sdk/client-dynamodb';
 import type { DynamoDBRecord } from 'aws-lambda';
 import type Analyzer from './analyzers/Analyzer.js';
+import QueryStringParser from './queries/QueryStringParser.js';
+import { getPaths, getSegments, toTermQuery } from './queries/TokenGraph.js';
+import type { Query, MatchQuery, TermQuery, SynonymQuery, PhraseQuery, BoolQuery, MultiMatchQuery, BoostingQuery, ConstantScoreQuery, QueryStringQuery } from './queries/Query.js';
+
+export type * from './queries/Query.js';
 
 const BATCH_SIZE = 25;
+const BATCH_GET_SIZE = 100;
+const POSITION_INCREMENT_GAP = 100;
+const POSTINGS_PAGE_SIZE = 100;
+const BASE_RETRY_DELAY = 50;
+const MAX_RETRY_DELAY = 5000;
+const THROTTLING_ERRORS = ['ProvisionedThroughputExceededException', 'RequestLimitExceeded', 'ThrottlingException'];
+// A sample of scripts, cases, widths and punctuation, whose tokens tell apart analyzers with custom components in the fingerprint.
+const FINGERPRINT_SAMPLE = "The QUICK brown fox's e-mail: fox@example.com, 12,345.67 /usr/local/bin Ünïcödé café ＦＵＬＬ ｶﾀｶﾅ 東京都の天気は晴れです。北京欢迎你 한국어 텍스트";
 
 export interface Attribute {
   name: string;
   analyzer: Analyzer;
+  /** The analyzer of the text of queries. Defaults to `analyzer`. */
+  searchAnalyzer?: Analyzer;
   shortName?: string;
 }
 
@@ -35,6 +58,34 @@ export interface Options {
   attributes: Attribute[];
   keys: Key[];
   dynamoDBClientConfig?: DynamoDBClientConfig;
+  /** The maximum number of requests sent to DynamoDB in parallel. Defaults to `1`. */
+  concurrency?: number;
+  /** The maximum number of times a throttled request or unprocessed items of a batch write are retried. Defaults to `10`. */
+  maxRetries?: number;
+  /**
+   * Tracks the version of each indexed document, so that stream records older than it or already processed are skipped.
+   * Versions are either the `SequenceNumber` of the records, or a numeric attribute of the items that increases on every write.
+   * Removed documents keep their version as a tombstone, so that older records of them are not indexed again.
+   */
+  versioning?: 'sequenceNumber' | { attribute: string };
+  /** The number of items the document and token counts are spread across, which are summed when read. Defaults to `1`. */
+  metadataShards?: number;
+  /**
+   * A table holding aliases of index tables. When set, `indexTableName` is the name of an alias that points to a versioned
+   * index table, which `rebuildIndexTable` replaces without downtime.
+   */
+  aliasTableName?: string;
+  /**
+   * What `search` does when the fingerprint of the attributes and analyzers stored by the indexer does not match its own:
+   * log a warning, throw a `ConfigMismatchError`, or nothing. Defaults to `'warn'`.
+   */
+  configMismatch?: 'warn' | 'error' | 'ignore';
+  /** Receives the warnings of the library, such as those of `configMismatch`. Defaults to `console`. */
+  logger?: Logger;
+}
+
+export interface Logger {
+  warn(message: string): void;
 }
 
 export interface SearchOptions {
@@ -42,6 +93,27 @@ export interface SearchOptions {
   maxItems?: number;
   minScore?: number;
   bm25?: BM25Params;
+  operator?: 'and' | 'or';
+  minimumShouldMatch?: number | string;
+  nextToken?: string;
+  maxPostingsPerTerm?: number;
+  /** Read postings page by page and stop once the remaining ones cannot make it into the top `maxItems` results. */
+  earlyTermination?: boolean;
+  /** The maximum age in seconds of the cached document frequencies used by early termination. Defaults to `3600`. */
+  termStatisticsMaxAge?: number;
+}
+
+export interface BackfillOptions {
+  sourceTableName: string;
+  /** The number of segments of the source table scanned in parallel. Defaults to `1`. */
+  segments?: number;
+  /** The maximum number of items read per page. */
+  pageSize?: number;
+  /**
+   * The target number of write capacity units consumed per second by the postings written or deleted, as reported by
+   * DynamoDB, including those of the keys index. Defaults to no limit.
+   */
+  writeCapacity?: number;
 }
 
 export interface BM25Params {
@@ -49,6 +121,165 @@ export interface BM25Params {
   b?: number;
 }
 
+export interface SearchResult {
+  items: { keys: Record<string, any>; score: number }[];
+  nextToken?: string;
+  /** Terms whose postings exceeded `maxPostingsPerTerm`. */
+  cappedTerms: { attribute: string; term: string }[];
+  consumedCapacity: {
+    capacityUnits: number;
+    tableName: string;
+  };
+}
+
+export interface Metadata {
+  docCount: number;
+  tokenCount: Map<string, number>;
+}
+
+export interface PostingIssue {
+  keys: Record<string, any>;
+  attribute: string;
+  token: string;
+}
+
+export interface VerifyResult {
+  scannedCount: number;
+  /** Postings expected from the source table that are not stored. */
+  missing: PostingIssue[];
+  /** Stored postings that are not expected, including those of items no longer in the source table. */
+  extra: PostingIssue[];
+  /** Stored postings whose occurrence or token count is outdated. */
+  stale: PostingIssue[];
+  metadata: {
+    docCount: { stored: number; expected: number };
+    tokenCount: Map<string, { stored: number; expected: number }>;
+  };
+}
+
+interface Phrase {
+  text: string;
+  slop: number;
+}
+
+interface Posting {
+  keys: string;
+  occurrence: number;
+  tokenCount: number;
+  positions?: number[];
+}
+
+interface Cursor {
+  score: number;
+  keys: string;
+  docCount: number;
+  tokenCount: [string, number][];
+  documentFrequencies?: [string, number][];
+}
+
+interface PostingList {
+  postings: Posting[];
+  /** The number of documents containing the term, which exceeds the number of postings if they were capped. */
+  documentFrequency: number;
+}
+
+interface DocumentVersion {
+  version?: string;
+  /** The `SequenceNumber` of the last REMOVE record of the document, with a version attribute. */
+  removed?: string;
+}
+
+interface TermClause {
+  attribute: Attribute;
+  value: string;
+  boost: number;
+}
+
+interface SearchContext {
+  getPostings: (attribute: Attribute, token: string) => Promise<PostingList>;
+  getIdf: (frequency: number) => number;
+  getScore: (attribute: Attribute, frequency: number, tokenCount: number, idf: number) => number;
+}
+
+export class UnprocessedItemsError extends Error {
+  /** The keys of the items in the index table that could not be written, with the partition key `p` and sort key `s`. */
+  keys: Record<string, AttributeValue>[];
+
+  constructor(tableName: string, keys: Record<string, AttributeValue>[]) {
+    super(`Failed to write ${keys.length} items to ${tableName}`);
+    this.name = 'UnprocessedItemsError';
+    this.keys = keys;
+  }
+}
+
+export class ConfigMismatchError extends Error {
+  /** The fingerprint stored by the indexer. */
+  stored: string;
+  /** The fingerprint of the attributes and analyzers of the searcher. */
+  expected: string;
+
+  constructor(tableName: string, stored: string, expected: string) {
+    super(`The attributes or analyzers do not match those ${tableName} was indexed with (fingerprint ${stored}, expected ${expected})`);
+    this.name = 'ConfigMismatchError';
+    this.stored = stored;
+    this.expected = expected;
+  }
+}
+
+/**
+ * Compares numeric strings, including sequence numbers beyond the precision of `number`.
+ */
+const compareVersions = (a: string, b: string) => {
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) {
+    return BigInt(a) < BigInt(b) ? -1 : BigInt(a) > BigInt(b) ? 1 : 0;
+  }
+  return Math.sign(Number(a) - Number(b));
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Returns the delay before a retry, growing exponentially with the number of attempts, with full jitter.
+ */
+const getRetryDelay = (attempt: number) => Math.random() * Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** attempt);
+
+/**
+ * Creates a function that runs tasks with at most `concurrency` of them in flight, in the order they were submitted.
+ */
+const createLimiter = (concurrency: number) => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  return async <T>(task: () => Promise<T>) => {
+    if (active < concurrency) {
+      active++;
+    } else {
+      await new Promise<void>(resolve => queue.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      // Hand the slot over to the next task, if any.
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+};
+
+/**
+ * Creates a rate limiter that delays callers so that the units they report average at most `unitsPerSecond`.
+ * Units are reported after they are consumed, and the next caller waits for them.
+ */
+const createRateLimiter = (unitsPerSecond: number) => {
+  let available = Date.now();
+  return async (units: number) => {
+    const now = Date.now();
+    const wait = Math.max(0, available - now);
+    available = Math.max(available, now) + units / unitsPerSecond * 1000;
+    if (wait > 0) await sleep(wait);
+  };
+};
+
 const encodeKeys = (keys: Record<string, any>[], { delimiter = ';', escape = '\\' } = {}) => {
   let str = '';
   for (let i = 0; i < keys.length; i++) {
@@ -81,6 +312,27 @@ const decodeKeys = (str: string, { delimiter = ';', escape = '\\' } = {}) => {
   return keys.map(key => ({ [key.slice(0, 1)]: key.slice(1) }));
 };
 
+const encodeNextToken = (cursor: Cursor) => {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+const decodeNextToken = (nextToken: string): Cursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(nextToken, 'base64url').toString());
+    if (typeof cursor.score === 'number' && typeof cursor.keys === 'string' && typeof cursor.docCount === 'number' && Array.isArray(cursor.tokenCount)
+      && (cursor.documentFrequencies === undefined || Array.isArray(cursor.documentFrequencies))) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new Error(`Invalid nextToken: ${nextToken}`);
+};
+
+const compareResults = ([keys_A, score_A]: [string, number], [keys_B, score_B]: [string, number]) => {
+  return score_B - score_A || (keys_A < keys_B ? -1 : keys_A > keys_B ? 1 : 0);
+};
+
 const encodeBinaryAttribute = (value: AttributeValue): any => {
   if (value.B && typeof value.B !== 'string') {
     return { B: Buffer.from(value.B).toString('base64') };
@@ -88,6 +340,112 @@ const encodeBinaryAttribute = (value: AttributeValue): any => {
   return value;
 };
 
+const encodePositions = (positions: number[]) => {
+  const bytes: number[] = [];
+  let previous = 0;
+  for (let i = 0; i < positions.length; i++) {
+    let delta = positions[i] - previous;
+    previous = positions[i];
+    while (delta >= 0x80) {
+      bytes.push((delta & 0x7f) | 0x80);
+      delta >>>= 7;
+    }
+    bytes.push(delta);
+  }
+  return Buffer.from(bytes);
+};
+
+const decodePositions = (buffer: Uint8Array) => {
+  const positions: number[] = [];
+  let previous = 0, delta = 0, shift = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    delta |= (buffer[i] & 0x7f) << shift;
+    shift += 7;
+    if (!(buffer[i] & 0x80)) {
+      previous += delta;
+      positions.push(previous);
+      delta = 0;
+      shift = 0;
+    }
+  }
+  return positions;
+};
+
+const parseQuery = (query: string) => {
+  const phrases: Phrase[] = [];
+  const excludedPhrases: Phrase[] = [];
+  const excludedWords: string[] = [];
+  const text = query
+    .replace(/(?:(?<=^|\s)(-))?"([^"]*)"(?:~(\d+))?/g, (_, not: string | undefined, phrase: string, slop?: string) => {
+      (not ? excludedPhrases : phrases).push({ text: phrase, slop: parseInt(slop ?? '0') });
+      return ' ';
+    })
+    .replace(/(?<=^|\s)-(\S+)/g, (_, word: string) => {
+      excludedWords.push(word);
+      return ' ';
+    });
+  return { text, phrases, mustNot: { text: excludedWords.join(' '), phrases: excludedPhrases } };
+};
+
+/**
+ * Resolves `minimumShouldMatch` into the number of clauses required to match. Accepts an integer (e.g., `2`),
+ * a negative integer for the number of clauses allowed to be missing (e.g., `-1`), or a percentage of either (e.g., `'75%'`).
+ */
+const getMinimumShouldMatch = (minimumShouldMatch: number | string, clauseCount: number) => {
+  const value = typeof minimumShouldMatch === 'string' && minimumShouldMatch.endsWith('%')
+    ? Math.trunc(clauseCount * parseFloat(minimumShouldMatch) / 100)
+    : Math.trunc(Number(minimumShouldMatch));
+  if (Number.isNaN(value)) {
+    throw new Error(`Invalid minimumShouldMatch: ${minimumShouldMatch}`);
+  }
+  return Math.min(clauseCount, Math.max(0, value < 0 ? clauseCount + value : value));
+};
+
+/**
+ * Combines the matches of clauses, keeping documents that match at least `required` clauses and summing their scores.
+ */
+const combineClauses = (clauses: Map<string, number>[], required: number) => {
+  const matches = new Map<string, { score: number; count: number }>();
+  clauses.forEach(clause => clause.forEach((score, keys) => {
+    const match = matches.get(keys) ?? { score: 0, count: 0 };
+    matches.set(keys, { score: match.score + score, count: match.count + 1 });
+  }));
+  return new Map([...matches.entries()].filter(([, { count }]) => count >= required).map(([keys, { score }]) => [keys, score]));
+};
+
+const scaleScores = (matches: Map<string, number>, boost = 1) => {
+  if (boost === 1) return matches;
+  return new Map([...matches.entries()].map(([keys, score]) => [keys, score * boost]));
+};
+
+/**
+ * Counts the occurrences of a phrase, where `positions[i]` holds the positions of the i-th term in the document
+ * and `offsets[i]` the position of the i-th term in the phrase. Sloppy matches are weighted by `1 / (1 + distance)`.
+ */
+const getPhraseFrequency = (positions: number[][], offsets: number[], slop: number) => {
+  const entries = positions
+    .flatMap((list, term) => list.map(position => ({ value: position - offsets[term], term })))
+    .sort((a, b) => a.value - b.value);
+  const counts: number[] = new Array(positions.length).fill(0);
+  let covered = 0, frequency = 0, start = 0;
+  for (let end = 0; end < entries.length; end++) {
+    if (counts[entries[end].term]++ === 0) covered++;
+    while (covered === positions.length) {
+      const matchLength = entries[end].value - entries[start].value;
+      if (matchLength <= slop) {
+        frequency += 1 / (1 + matchLength);
+        counts.fill(0);
+        covered = 0;
+        start = end + 1;
+      } else {
+        if (--counts[entries[start].term] === 0) covered--;
+        start++;
+      }
+    }
+  }
+  return frequency;
+};
+
 const extractStringValues = (value?: AWSLambda.AttributeValue): string[] => {
   if (value?.S) {
     return [value.S];
@@ -107,6 +465,14 @@ class DynamoSearch {
   private attributes: Attribute[];
   private partitionKeyName: string;
   private sortKeyName?: string;
+  private maxRetries: number;
+  private versioning?: 'sequenceNumber' | { attribute: string };
+  private metadataShards: number;
+  private aliasTableName?: string;
+  private configMismatch: 'warn' | 'error' | 'ignore';
+  private logger: Logger;
+  private fingerprint?: string;
+  private limit: <T>(task: () => Promise<T>) => Promise<T>;
 
   static readonly INDEX_KEYS = 'keys-index';
   static readonly INDEX_HASH = 'hash-index';
@@ -115,9 +481,21 @@ class DynamoSearch {
   static readonly ATTR_SK = 's';
   static readonly ATTR_KEYS = 'k';
   static readonly ATTR_HASH = 'h';
+  static readonly ATTR_POSITIONS = 'l';
 
   static readonly ATTR_META_DOCUMENT_COUNT = 'dc';
   static readonly ATTR_META_TOKEN_COUNT = 'tc';
+  static readonly ATTR_META_UPDATED_AT = 'u';
+  static readonly ATTR_META_VERSION = 'v';
+  static readonly ATTR_META_REMOVED = 'r';
+  static readonly ATTR_META_FINGERPRINT = 'f';
+
+  static readonly ATTR_ALIAS_TABLE = 't';
+  static readonly ATTR_ALIAS_BUILDING_TABLE = 'b';
+
+  static readonly ATTR_BACKFILL_SEGMENTS = 'n';
+  static readonly ATTR_BACKFILL_POSITION = 'e';
+  static readonly ATTR_BACKFILL_DONE = 'd';
 
   static readonly META_KEY = {
     [DynamoSearch.ATTR_PK]: { S: '_' },
@@ -128,11 +506,63 @@ class DynamoSearch {
     this.client = new DynamoDBClient({ ...options.dynamoDBClientConfig });
     this.indexTableName = options.indexTableName;
     this.attributes = options.attributes;
+    // Partition keys starting with `_` are reserved for the metadata, versions and other records of the index table.
+    const reserved = this.attributes.find(attribute => (attribute.shortName || attribute.name).startsWith('_'));
+    if (reserved) {
+      throw new Error(`Attribute ${reserved.shortName ? 'short names' : 'names'} cannot start with "_": ${reserved.shortName || reserved.name}`);
+    }
     this.partitionKeyName = options.keys.find(key => key.type === 'HASH')!.name;
     this.sortKeyName = options.keys.find(key => key.type === 'RANGE')?.name;
+    this.maxRetries = options.maxRetries ?? 10;
+    this.limit = createLimiter(options.concurrency ?? 1);
+    this.versioning = options.versioning;
+    this.metadataShards = options.metadataShards ?? 1;
+    this.aliasTableName = options.aliasTableName;
+    this.configMismatch = options.configMismatch ?? 'warn';
+    this.logger = options.logger ?? console;
   }
 
+  /**
+   * Runs a request, retrying it with exponential backoff while DynamoDB throttles it.
+   */
+  private async retry<T>(request: () => Promise<T>) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (attempt >= this.maxRetries || !(error instanceof Error && THROTTLING_ERRORS.includes(error.name))) {
+          throw error;
+        }
+        await sleep(getRetryDelay(attempt));
+      }
+    }
+  }
+
+  /**
+   * Creates the index table. With `aliasTableName`, the alias table is created if needed, and the alias is created and
+   * pointed to the first version of the index table.
+   */
   async createIndexTable({ ifNotExists, tableProperties }: { ifNotExists?: boolean; tableProperties?: Partial<CreateTableCommandInput> } = {}) {
+    if (this.aliasTableName) {
+      await this.createAliasTable();
+      if (await this.getAlias()) {
+        if (ifNotExists) return;
+        throw new Error(`Alias already exists: ${this.indexTableName}`);
+      }
+      const tableName = `${this.indexTableName}_v1`;
+      await this.withIndexTable(tableName).createIndexTable({ ifNotExists, tableProperties });
+      await this.client.send(new PutItemCommand({
+        TableName: this.aliasTableName,
+        Item: {
+          [DynamoSearch.ATTR_PK]: { S: this.indexTableName },
+          [DynamoSearch.ATTR_ALIAS_TABLE]: { S: tableName },
+          [DynamoSearch.ATTR_META_VERSION]: { N: '1' },
+        },
+        ConditionExpression: 'attribute_not_exists(#pk)',
+        ExpressionAttributeNames: { '#pk': DynamoSearch.ATTR_PK },
+      }));
+      return;
+    }
     try {
       await this.client.send(new CreateTableCommand({
         TableName: this.indexTableName,
@@ -173,7 +603,29 @@ class DynamoSearch {
     }
   }
 
+  /**
+   * Deletes the index table. With `aliasTableName`, the tables the alias points to and the alias are deleted.
+   */
   async deleteIndexTable({ ifExists }: { ifExists?: boolean } = {}) {
+    if (this.aliasTableName) {
+      const alias = await this.getAlias().catch((error) => {
+        if (ifExists && error instanceof ResourceNotFoundException) return undefined;
+        throw error;
+      });
+      if (!alias) {
+        if (ifExists) return;
+        throw new Error(`Alias not found: ${this.indexTableName}`);
+      }
+      if (alias.buildingTableName) {
+        await this.withIndexTable(alias.buildingTableName).deleteIndexTable({ ifExists: true });
+      }
+      await this.withIndexTable(alias.tableName).deleteIndexTable({ ifExists });
+      await this.client.send(new DeleteItemCommand({
+        TableName: this.aliasTableName,
+        Key: { [DynamoSearch.ATTR_PK]: { S: this.indexTableName } },
+      }));
+      return;
+    }
     try {
       await this.client.send(new DeleteTableCommand({
         TableName: this.indexTableName,
@@ -185,6 +637,64 @@ class DynamoSearch {
     }
   }
 
+  private async createAliasTable() {
+    try {
+      await this.client.send(new CreateTableCommand({
+        TableName: this.aliasTableName,
+        AttributeDefinitions: [
+          { AttributeName: DynamoSearch.ATTR_PK, AttributeType: 'S' },
+        ],
+        KeySchema: [
+          { AttributeName: DynamoSearch.ATTR_PK, KeyType: 'HASH' },
+        ],
+        BillingMode: 'PAY_PER_REQUEST',
+      }));
+    } catch (error) {
+      if (!(error instanceof ResourceInUseException)) {
+        throw error;
+      }
+    }
+    await waitUntilTableExists({ client: this.client, maxWaitTime: 300 }, { TableName: this.aliasTableName });
+  }
+
+  /**
+   * Reads the alias, which holds the name of the current index table and, while a new version is being built, the
+   * name of the table being built.
+   */
+  private async getAlias() {
+    const { Item, ConsumedCapacity } = await this.retry(() => this.client.send(new GetItemCommand({
+      TableName: this.aliasTableName,
+      Key: { [DynamoSearch.ATTR_PK]: { S: this.indexTableName } },
+      ConsistentRead: true,
+      ReturnConsumedCapacity: 'TOTAL',
+    })));
+    if (!Item) return undefined;
+    return {
+      tableName: Item[DynamoSearch.ATTR_ALIAS_TABLE].S!,
+      buildingTableName: Item[DynamoSearch.ATTR_ALIAS_BUILDING_TABLE]?.S,
+      version: parseInt(Item[DynamoSearch.ATTR_META_VERSION].N!),
+      capacityUnits: ConsumedCapacity?.CapacityUnits ?? 0,
+    };
+  }
+
+  /**
+   * Returns a copy of this instance that reads and writes the given index table directly, without resolving an alias.
+   */
+  private withIndexTable(indexTableName: string): DynamoSearch {
+    return Object.assign(Object.create(this), { indexTableName, aliasTableName: undefined });
+  }
+
+  /**
+   * Returns a copy of this instance that reads and writes the index table the alias points to.
+   */
+  private async resolveIndexTable() {
+    const alias = await this.getAlias();
+    if (!alias) {
+      throw new Error(`Alias not found: ${this.indexTableName}`);
+    }
+    return this.withIndexTable(alias.tableName);
+  }
+
   private getEncodedKeys(item: Record<string, AWSLambda.AttributeValue>) {
     return encodeKeys([
       item[this.partitionKeyName],
@@ -199,50 +709,172 @@ class DynamoSearch {
     };
   }
 
-  async insertTokens(item: Record<string, AWSLambda.AttributeValue>, resultMap = new Map<string, number>()) {
-    let inserted = 0;
-    for (let i = 0; i < this.attributes.length; i++) {
-      const tokens = new Map<string, number>();
-      const attributeValues = extractStringValues(item[this.attributes[i].name]);
-      const result = attributeValues.flatMap(str => this.attributes[i].analyzer.analyze(str));
-      resultMap.set(this.attributes[i].name, (resultMap.get(this.attributes[i].name) ?? 0) + result.length);
+  private analyzeAttribute(attribute: Attribute, item: Record<string, AWSLambda.AttributeValue>) {
+    const tokens = new Map<string, number[]>();
+    const attributeValues = extractStringValues(item[attribute.name]);
+    let tokenCount = 0, offset = 0;
+    for (let i = 0; i < attributeValues.length; i++) {
+      const result = attribute.analyzer.analyze(attributeValues[i]);
+      let lastPosition = -1;
       for (let j = 0; j < result.length; j++) {
-        tokens.set(result[j].text, (tokens.get(result[j].text) ?? 0) + 1);
+        const position = offset + (result[j].position ?? j);
+        const positions = tokens.get(result[j].text);
+        if (positions) {
+          positions.push(position);
+        } else {
+          tokens.set(result[j].text, [position]);
+        }
+        lastPosition = Math.max(lastPosition, position);
       }
-      const entries = [...tokens.entries()];
-      for (let j = 0; j < entries.length; j += BATCH_SIZE) {
-        await this.client.send(new BatchWriteItemCommand({
+      tokenCount += result.length;
+      // Leave a gap between values of a multi-valued attribute so that phrases do not match across them. Values without
+      // tokens keep the offset from moving back over the positions of the previous values.
+      offset = Math.max(offset, lastPosition + 1) + POSITION_INCREMENT_GAP;
+    }
+    tokens.forEach(positions => positions.sort((a, b) => a - b));
+    return { tokens, tokenCount };
+  }
+
+  /**
+   * Reads items in batches of up to 100. Keys left unprocessed by DynamoDB are retried with exponential backoff, up to `maxRetries` times.
+   */
+  private async batchGet(keys: Record<string, AttributeValue>[]) {
+    const items: Record<string, AttributeValue>[] = [];
+    for (let i = 0; i < keys.length; i += BATCH_GET_SIZE) {
+      let unprocessed = keys.slice(i, i + BATCH_GET_SIZE);
+      for (let attempt = 0; unprocessed.length > 0; attempt++) {
+        if (attempt > this.maxRetries) {
+          throw new Error(`Failed to read ${unprocessed.length} items from ${this.indexTableName}`);
+        }
+        if (attempt > 0) await sleep(getRetryDelay(attempt - 1));
+        const { Responses, UnprocessedKeys } = await this.retry(() => this.client.send(new BatchGetItemCommand({
           RequestItems: {
-            [this.indexTableName]: entries.slice(j, j + BATCH_SIZE).map(([token, occurrence]) => {
-              const encodedKeys = this.getEncodedKeys(item);
-              const hash = createHash('md5').update(encodedKeys).digest();
-              const buffer = Buffer.allocUnsafe(14);
-              buffer.writeUInt16BE(Math.min(2 ** 16 - 1, occurrence), 0);
-              buffer.writeUInt32BE(Math.min(2 ** 32 - 1, result.length), 2);
-              hash.copy(buffer, 6, 0, 8);
-              const data = {
-                [DynamoSearch.ATTR_PK]: { S: `${this.attributes[i].shortName || this.attributes[i].name};${token}` },
-                [DynamoSearch.ATTR_SK]: { B: buffer },
-                [DynamoSearch.ATTR_KEYS]: { S: encodedKeys },
-                [DynamoSearch.ATTR_HASH]: { B: hash.subarray(0, 1) },
-              };
-              return { PutRequest: { Item: data } };
-            }),
+            [this.indexTableName]: { Keys: unprocessed },
           },
-        }));
+        })));
+        items.push(...(Responses?.[this.indexTableName] ?? []));
+        unprocessed = UnprocessedKeys?.[this.indexTableName]?.Keys ?? [];
       }
-      inserted += entries.length;
     }
+    return items;
+  }
 
-    return { inserted, resultMap };
+  /**
+   * Writes requests in batches of up to 25, sending up to `concurrency` batches in parallel. Items left unprocessed
+   * by DynamoDB are retried with exponential backoff, up to `maxRetries` times. Returns the write capacity units
+   * consumed, including those of the keys index.
+   */
+  private async batchWrite(requests: WriteRequest[]) {
+    const batches: WriteRequest[][] = [];
+    for (let i = 0; i < requests.length; i += BATCH_SIZE) {
+      batches.push(requests.slice(i, i + BATCH_SIZE));
+    }
+    let capacityUnits = 0;
+    await Promise.all(batches.map(batch => this.limit(async () => {
+      let unprocessed = batch;
+      for (let attempt = 0; unprocessed.length > 0; attempt++) {
+        if (attempt > this.maxRetries) {
+          throw new UnprocessedItemsError(this.indexTableName, unprocessed.map(request => {
+            const item = request.PutRequest?.Item ?? request.DeleteRequest!.Key!;
+            return { [DynamoSearch.ATTR_PK]: item[DynamoSearch.ATTR_PK], [DynamoSearch.ATTR_SK]: item[DynamoSearch.ATTR_SK] };
+          }));
+        }
+        if (attempt > 0) await sleep(getRetryDelay(attempt - 1));
+        const { UnprocessedItems, ConsumedCapacity } = await this.retry(() => this.client.send(new BatchWriteItemCommand({
+          RequestItems: {
+            [this.indexTableName]: unprocessed,
+          },
+          ReturnConsumedCapacity: 'TOTAL',
+        })));
+        capacityUnits += ConsumedCapacity?.reduce((sum, { CapacityUnits }) => sum + (CapacityUnits ?? 0), 0) ?? 0;
+        unprocessed = UnprocessedItems?.[this.indexTableName] ?? [];
+      }
+    })));
+    return capacityUnits;
   }
 
-  async deleteTokens(item: Record<string, AWSLambda.AttributeValue>, resultMap = new Map<string, number>()) {
+  private createPostings(attribute: Attribute, item: Record<string, AWSLambda.AttributeValue>) {
+    const { tokens, tokenCount } = this.analyzeAttribute(attribute, item);
+    const encodedKeys = this.getEncodedKeys(item);
+    const hash = createHash('md5').update(encodedKeys).digest();
+    const postings = [...tokens.entries()].map(([token, positions]) => {
+      const buffer = Buffer.allocUnsafe(14);
+      buffer.writeUInt16BE(Math.min(2 ** 16 - 1, positions.length), 0);
+      buffer.writeUInt32BE(Math.min(2 ** 32 - 1, tokenCount), 2);
+      hash.copy(buffer, 6, 0, 8);
+      return {
+        [DynamoSearch.ATTR_PK]: { S: `${attribute.shortName || attribute.name};${token}` },
+        [DynamoSearch.ATTR_SK]: { B: buffer },
+        [DynamoSearch.ATTR_KEYS]: { S: encodedKeys },
+        [DynamoSearch.ATTR_HASH]: { B: hash.subarray(0, 1) },
+        [DynamoSearch.ATTR_POSITIONS]: { B: encodePositions(positions) },
+      };
+    });
+    return { postings, tokenCount };
+  }
+
+  async insertTokens(item: Record<string, AWSLambda.AttributeValue>, resultMap = new Map<string, number>()): Promise<{ inserted: number; resultMap: Map<string, number>; capacityUnits: number }> {
+    if (this.aliasTableName) return (await this.resolveIndexTable()).insertTokens(item, resultMap);
+    let inserted = 0;
+    const requests: WriteRequest[] = [];
+    for (let i = 0; i < this.attributes.length; i++) {
+      const { postings, tokenCount } = this.createPostings(this.attributes[i], item);
+      resultMap.set(this.attributes[i].name, (resultMap.get(this.attributes[i].name) ?? 0) + tokenCount);
+      requests.push(...postings.map(posting => ({ PutRequest: { Item: posting } })));
+      inserted += postings.length;
+    }
+    const capacityUnits = await this.batchWrite(requests);
+
+    return { inserted, resultMap, capacityUnits };
+  }
+
+  /**
+   * Updates the postings of an item from its old and new images, as found in MODIFY stream records. Nothing is written
+   * unless an indexed attribute changed, and only the postings whose occurrence, token count or positions changed are
+   * rewritten. Returns the change in the number of indexed documents in `count`.
+   */
+  async updateTokens(oldItem: Record<string, AWSLambda.AttributeValue>, newItem: Record<string, AWSLambda.AttributeValue>, resultMap = new Map<string, number>()): Promise<{ inserted: number; deleted: number; count: number; resultMap: Map<string, number> }> {
+    if (this.aliasTableName) return (await this.resolveIndexTable()).updateTokens(oldItem, newItem, resultMap);
+    let inserted = 0, deleted = 0, oldCount = 0, newCount = 0;
+    if (this.attributes.every(attr => JSON.stringify(oldItem[attr.name]) === JSON.stringify(newItem[attr.name]))) {
+      return { inserted, deleted, count: 0, resultMap };
+    }
+    const requests: WriteRequest[] = [];
+    for (let i = 0; i < this.attributes.length; i++) {
+      const oldPostings = this.createPostings(this.attributes[i], oldItem);
+      const newPostings = this.createPostings(this.attributes[i], newItem);
+      resultMap.set(this.attributes[i].name, (resultMap.get(this.attributes[i].name) ?? 0) + newPostings.tokenCount - oldPostings.tokenCount);
+      oldCount += oldPostings.postings.length;
+      newCount += newPostings.postings.length;
+      const previous = new Map(oldPostings.postings.map(posting => [posting[DynamoSearch.ATTR_PK].S, posting]));
+      newPostings.postings.forEach((posting) => {
+        const old = previous.get(posting[DynamoSearch.ATTR_PK].S);
+        if (old && Buffer.compare(old[DynamoSearch.ATTR_SK].B, posting[DynamoSearch.ATTR_SK].B) === 0) {
+          previous.delete(posting[DynamoSearch.ATTR_PK].S);
+          if (Buffer.compare(old[DynamoSearch.ATTR_POSITIONS].B, posting[DynamoSearch.ATTR_POSITIONS].B) === 0) return;
+        }
+        requests.push({ PutRequest: { Item: posting } });
+        inserted++;
+      });
+      // The postings left are those of terms that disappeared, or whose occurrence or token count changed, which are part of the sort key.
+      previous.forEach((posting) => {
+        requests.push({ DeleteRequest: { Key: { [DynamoSearch.ATTR_PK]: posting[DynamoSearch.ATTR_PK], [DynamoSearch.ATTR_SK]: posting[DynamoSearch.ATTR_SK] } } });
+        deleted++;
+      });
+    }
+    await this.batchWrite(requests);
+
+    return { inserted, deleted, count: Math.sign(newCount) - Math.sign(oldCount), resultMap };
+  }
+
+  /**
+   * Reads the keys of the postings stored for a document from the keys index.
+   */
+  private async queryKeysIndex(encodedKeys: string) {
     const items: Record<string, AttributeValue>[] = [];
     let exclusiveStartKey: Record<string, AttributeValue> | undefined = undefined;
     do {
-      const encodedKeys = this.getEncodedKeys(item);
-      const { Items, LastEvaluatedKey }: { Items?: Record<string, AttributeValue>[]; LastEvaluatedKey?: Record<string, AttributeValue> } = await this.client.send(new QueryCommand({
+      const { Items, LastEvaluatedKey }: { Items?: Record<string, AttributeValue>[]; LastEvaluatedKey?: Record<string, AttributeValue> } = await this.retry(() => this.client.send(new QueryCommand({
         TableName: this.indexTableName,
         IndexName: DynamoSearch.INDEX_KEYS,
         KeyConditionExpression: '#keys = :keys',
@@ -256,10 +888,16 @@ class DynamoSearch {
           ':keys': { S: encodedKeys },
         },
         ExclusiveStartKey: exclusiveStartKey,
-      }));
+      })));
       if (Items) items.push(...Items);
       exclusiveStartKey = LastEvaluatedKey;
     } while (exclusiveStartKey);
+    return items;
+  }
+
+  async deleteTokens(item: Record<string, AWSLambda.AttributeValue>, resultMap = new Map<string, number>()): Promise<{ deleted: number; resultMap: Map<string, number>; capacityUnits: number }> {
+    if (this.aliasTableName) return (await this.resolveIndexTable()).deleteTokens(item, resultMap);
+    const items = await this.queryKeysIndex(this.getEncodedKeys(item));
 
     for (let i = 0; i < items.length; i++) {
       const [shortName]: (string | undefined)[] = items[i][DynamoSearch.ATTR_PK].S!.split(';');
@@ -267,56 +905,33 @@ class DynamoSearch {
       const occurrence = Buffer.from(items[i][DynamoSearch.ATTR_SK].B!).readUInt16BE(0);
       resultMap.set(attributeName, (resultMap.get(attributeName) ?? 0) - occurrence);
     }
-    let deleted = 0;
-    for (let i = 0; i < items.length; i += BATCH_SIZE) {
-      await this.client.send(new BatchWriteItemCommand({
-        RequestItems: {
-          [this.indexTableName]: items.slice(i, i + BATCH_SIZE).map((keys) => ({
-            DeleteRequest: { Key: keys },
-          })),
-        },
-      }));
-      deleted += items.length;
-    }
+    const capacityUnits = await this.batchWrite(items.map(keys => ({ DeleteRequest: { Key: keys } })));
+    const deleted = items.length;
 
-    return { deleted, resultMap };
+    return { deleted, resultMap, capacityUnits };
   }
 
   async exportTokensAsFile(path: string, item: Record<string, AWSLambda.AttributeValue>, resultMap = new Map<string, number>(), metadata = true) {
     let inserted = 0;
     let text = '';
     for (let i = 0; i < this.attributes.length; i++) {
-      const tokens = new Map<string, number>();
-      const attributeValues = extractStringValues(item[this.attributes[i].name]);
-      const result = attributeValues.flatMap(str => this.attributes[i].analyzer.analyze(str));
-      resultMap.set(this.attributes[i].name, (resultMap.get(this.attributes[i].name) ?? 0) + result.length);
-      for (let j = 0; j < result.length; j++) {
-        tokens.set(result[j].text, (tokens.get(result[j].text) ?? 0) + 1);
-      }
-      for (const [token, occurrence] of tokens.entries()) {
-        const encodedKeys = this.getEncodedKeys(item);
-        const hash = createHash('md5').update(encodedKeys).digest();
-        const buffer = Buffer.allocUnsafe(14);
-        buffer.writeUInt16BE(Math.min(2 ** 16 - 1, occurrence), 0);
-        buffer.writeUInt32BE(Math.min(2 ** 32 - 1, result.length), 2);
-        hash.copy(buffer, 6, 0, 8);
-        const data = {
-          [DynamoSearch.ATTR_PK]: { S: `${this.attributes[i].shortName || this.attributes[i].name};${token}` },
-          [DynamoSearch.ATTR_SK]: { B: buffer.toString('base64') },
-          [DynamoSearch.ATTR_KEYS]: { S: encodedKeys },
-          [DynamoSearch.ATTR_HASH]: { B: hash.subarray(0, 1).toString('base64') },
-        };
+      const { postings, tokenCount } = this.createPostings(this.attributes[i], item);
+      resultMap.set(this.attributes[i].name, (resultMap.get(this.attributes[i].name) ?? 0) + tokenCount);
+      postings.forEach((posting) => {
+        const data = Object.fromEntries(Object.entries(posting).map(([key, value]) => [key, encodeBinaryAttribute(value)]));
         text += JSON.stringify({ Item: data }) + '\n';
-      }
-      inserted += tokens.size;
+      });
+      inserted += postings.length;
     }
     if (metadata) {
       const data = {
         [DynamoSearch.ATTR_PK]: { S: '_' },
         [DynamoSearch.ATTR_SK]: { B: Buffer.alloc(1).toString('base64') },
-        [DynamoSearch.ATTR_META_DOCUMENT_COUNT]: { N: inserted.toString() },
+        // The item is a single document, however many postings it has.
+        [DynamoSearch.ATTR_META_DOCUMENT_COUNT]: { N: inserted > 0 ? '1' : '0' },
+        [DynamoSearch.ATTR_META_FINGERPRINT]: { S: this.getFingerprint() },
         ...Object.fromEntries([...resultMap.entries()].map(([attributeName, value]) => {
-          const shortName = this.attributes.find(attr => attr.name === attributeName)?.shortName ?? attributeName;
+          const shortName = this.attributes.find(attr => attr.name === attributeName)?.shortName || attributeName;
           return [`${DynamoSearch.ATTR_META_TOKEN_COUNT}:${shortName}`, { N: value.toString() }];
         })),
       };
@@ -327,135 +942,1159 @@ class DynamoSearch {
     return { inserted, resultMap };
   }
 
-  async getMetadata() {
-    const { Item } = await this.client.send(new GetItemCommand({
-      TableName: this.indexTableName,
-      Key: DynamoSearch.META_KEY,
-    }));
-
+  /**
+   * Returns the key of a metadata shard. The first shard is the original metadata item, so that its counts remain
+   * when the number of shards is increased.
+   */
+  private getMetadataKey(shard: number) {
+    if (shard === 0) return DynamoSearch.META_KEY;
     return {
-      docCount: parseInt(Item?.[DynamoSearch.ATTR_META_DOCUMENT_COUNT].N ?? '0'),
-      tokenCount: new Map(Object.entries(Item ?? {}).filter(([key]) => key.startsWith(`${DynamoSearch.ATTR_META_TOKEN_COUNT}:`)).map(([key, value]) => {
+      [DynamoSearch.ATTR_PK]: { S: `_${shard}` },
+      [DynamoSearch.ATTR_SK]: { B: Buffer.alloc(1) },
+    };
+  }
+
+  /**
+   * Returns a hash of the names, short names and analyzers of the attributes. Analyzers are compared by the registered
+   * names and options of their components, not by their class names, which bundlers may minify differently in the indexer
+   * and in the search function, and by the tokens they produce from a sample text, which tells apart the components
+   * without a `config`. Search analyzers are left out, since indexers do not need them.
+   */
+  getFingerprint() {
+    if (this.fingerprint === undefined) {
+      const attributes = this.attributes.map(({ name, shortName, analyzer }) => [
+        name,
+        shortName || null,
+        analyzer.getConfig(),
+        analyzer.analyze(FINGERPRINT_SAMPLE).map(token => [token.text, token.position, token.positionLength ?? 1]),
+      ]);
+      this.fingerprint = createHash('sha256').update(JSON.stringify(attributes)).digest('hex').slice(0, 16);
+    }
+    return this.fingerprint;
+  }
+
+  async getMetadata(): Promise<Metadata> {
+    if (this.aliasTableName) return (await this.resolveIndexTable()).getMetadata();
+    const { docCount, tokenCount } = await this.readMetadata();
+    return { docCount, tokenCount };
+  }
+
+  /**
+   * Reads the metadata shards. The fingerprint is that of the shard updated last, since shards are only rewritten
+   * as documents are indexed.
+   */
+  private async readMetadata() {
+    const items = await this.batchGet(Array.from({ length: this.metadataShards }, (_, shard) => this.getMetadataKey(shard)));
+    let docCount = 0;
+    const tokenCount = new Map<string, number>();
+    let fingerprint: string | undefined = undefined;
+    let updatedAt = -1;
+    items.forEach((item) => {
+      const time = parseInt(item[DynamoSearch.ATTR_META_UPDATED_AT]?.N ?? '0');
+      if (item[DynamoSearch.ATTR_META_FINGERPRINT] && time > updatedAt) {
+        fingerprint = item[DynamoSearch.ATTR_META_FINGERPRINT].S;
+        updatedAt = time;
+      }
+    });
+    items.forEach(item => Object.entries(item).forEach(([key, value]) => {
+      if (key === DynamoSearch.ATTR_META_DOCUMENT_COUNT) {
+        docCount += parseInt(value.N ?? '0');
+      } else if (key.startsWith(`${DynamoSearch.ATTR_META_TOKEN_COUNT}:`)) {
         const shortName = key.replace(`${DynamoSearch.ATTR_META_TOKEN_COUNT}:`, '');
         const attributeName = this.attributes.find(attr => attr.shortName === shortName)?.name ?? shortName;
-        return [attributeName, parseInt(value.N ?? '0')];
-      })),
-    };
+        tokenCount.set(attributeName, (tokenCount.get(attributeName) ?? 0) + parseInt(value.N ?? '0'));
+      }
+    }));
+
+    return { docCount, tokenCount, fingerprint };
+  }
+
+  /**
+   * Warns or throws, depending on `configMismatch`, when the index was written with other attributes or analyzers.
+   */
+  private checkFingerprint(fingerprint?: string) {
+    if (fingerprint === undefined || fingerprint === this.getFingerprint() || this.configMismatch === 'ignore') return;
+    const error = new ConfigMismatchError(this.indexTableName, fingerprint, this.getFingerprint());
+    if (this.configMismatch === 'error') throw error;
+    this.logger.warn(error.message);
   }
 
   async updateMetadata({ count, resultMap }: { count: number; resultMap: Map<string, number> }) {
-    let updateExpressions = ['#attr = if_not_exists(#attr, :zero) + :val'];
+    let updateExpressions = ['#attr = if_not_exists(#attr, :zero) + :val', '#fingerprint = :fingerprint', '#updatedAt = :updatedAt'];
     const expressionAttributeNames: Record<string, string> = {
       '#attr': DynamoSearch.ATTR_META_DOCUMENT_COUNT,
+      '#fingerprint': DynamoSearch.ATTR_META_FINGERPRINT,
+      '#updatedAt': DynamoSearch.ATTR_META_UPDATED_AT,
     };
     const expressionAttributeValues: Record<string, AttributeValue> = {
       ':zero': { N: '0' },
       ':val': { N: count.toString() },
+      ':fingerprint': { S: this.getFingerprint() },
+      ':updatedAt': { N: Date.now().toString() },
     };
     const entries = [...resultMap.entries()];
     entries.forEach(([attributeName, value], index) => {
-      const shortName = this.attributes.find(attr => attr.name === attributeName)?.shortName ?? attributeName;
+      const shortName = this.attributes.find(attr => attr.name === attributeName)?.shortName || attributeName;
       updateExpressions.push(`#attr${index} = if_not_exists(#attr${index}, :zero) + :val${index}`);
       expressionAttributeNames[`#attr${index}`] = `${DynamoSearch.ATTR_META_TOKEN_COUNT}:${shortName}`;
       expressionAttributeValues[`:val${index}`] = { N: value.toString() };
     });
-    await this.client.send(new UpdateItemCommand({
+    // Updates are spread across the shards, so that no single item takes every update.
+    const shard = Math.floor(Math.random() * this.metadataShards);
+    await this.retry(() => this.client.send(new UpdateItemCommand({
       TableName: this.indexTableName,
-      Key: DynamoSearch.META_KEY,
+      Key: this.getMetadataKey(shard),
       UpdateExpression: `SET ${updateExpressions.join(', ')}`,
       ExpressionAttributeNames: expressionAttributeNames,
       ExpressionAttributeValues: expressionAttributeValues,
-    }));
+    })));
+  }
+
+  private getVersionKey(encodedKeys: string) {
+    return {
+      [DynamoSearch.ATTR_PK]: { S: `_v;${encodedKeys}` },
+      [DynamoSearch.ATTR_SK]: { B: Buffer.from([1]) },
+    };
   }
 
-  async processRecords(records: DynamoDBRecord[]) {
+  private getRecordVersion(record: DynamoDBRecord) {
+    if (this.versioning === 'sequenceNumber') return record.dynamodb?.SequenceNumber;
+    const image = record.eventName === 'REMOVE' ? record.dynamodb?.OldImage : record.dynamodb?.NewImage;
+    return this.versioning && image?.[this.versioning.attribute]?.N;
+  }
+
+  /**
+   * Reads the versions indexed for the given documents, keyed by their encoded keys. With a version attribute, they also
+   * hold the `SequenceNumber` of the last REMOVE record of the document, and only that once it has been removed.
+   */
+  private async getVersions(encodedKeys: string[]) {
+    const items = await this.batchGet([...new Set(encodedKeys)].map(key => this.getVersionKey(key)));
+    return new Map<string, DocumentVersion>(items.map(item => [item[DynamoSearch.ATTR_PK].S!.slice(3), {
+      version: item[DynamoSearch.ATTR_META_VERSION]?.N,
+      removed: item[DynamoSearch.ATTR_META_REMOVED]?.N,
+    }]));
+  }
+
+  /**
+   * Indexes the changes of DynamoDB Stream records. With `reportBatchItemFailures`, processing stops at the first record
+   * that fails instead of throwing, and the record is returned in `batchItemFailures` for Lambda to retry the batch from it.
+   */
+  async processRecords(records: DynamoDBRecord[], { reportBatchItemFailures = false }: { reportBatchItemFailures?: boolean } = {}): Promise<{ batchItemFailures: { itemIdentifier: string }[] }> {
+    if (this.aliasTableName) {
+      const alias = await this.getAlias();
+      if (!alias) {
+        throw new Error(`Alias not found: ${this.indexTableName}`);
+      }
+      if (alias.buildingTableName) {
+        await this.withIndexTable(alias.buildingTableName).logChanges(records);
+      }
+      return this.withIndexTable(alias.tableName).processRecords(records, { reportBatchItemFailures });
+    }
     let count = 0;
     const resultMap = new Map<string, number>();
+    const batchItemFailures: { itemIdentifier: string }[] = [];
+    const versions = this.versioning
+      ? await this.getVersions(records.map(record => this.getEncodedKeys(record.dynamodb!.Keys!)))
+      : new Map<string, DocumentVersion>();
+    const processedVersions = new Map<string, DocumentVersion>();
     for (let i = 0; i < records.length; i++) {
       const record = records[i];
-      if (record.eventName === 'MODIFY' || record.eventName === 'REMOVE') {
-        const { deleted } = await this.deleteTokens(record.dynamodb!.Keys!, resultMap);
-        if (deleted > 0) count--;
+      const encodedKeys = this.getEncodedKeys(record.dynamodb!.Keys!);
+      const version = this.getRecordVersion(record);
+      const indexed = versions.get(encodedKeys);
+      const sequenceNumber = record.dynamodb?.SequenceNumber;
+      // The version attribute of a re-created item may start over, so records that precede its last removal in the stream
+      // are skipped, and the tombstone of a removed item has no version to compare with.
+      if (indexed?.removed && sequenceNumber && compareVersions(sequenceNumber, indexed.removed) <= 0) continue;
+      if (version && indexed?.version) {
+        // The version attribute of a removed item is the one it was indexed with, so it is expected to be equal.
+        const comparison = compareVersions(version, indexed.version);
+        if (comparison < 0 || (comparison === 0 && !(record.eventName === 'REMOVE' && this.versioning !== 'sequenceNumber'))) continue;
+      }
+      // The counts of a record are only added to the metadata once all of its tokens have been written.
+      let recordCount = 0;
+      const recordMap = new Map<string, number>();
+      try {
+        if (record.eventName === 'MODIFY' && record.dynamodb!.OldImage) {
+          const { count } = await this.updateTokens(record.dynamodb!.OldImage, record.dynamodb!.NewImage!, recordMap);
+          recordCount += count;
+        } else if (record.eventName === 'MODIFY' || record.eventName === 'REMOVE') {
+          const { deleted } = await this.deleteTokens(record.dynamodb!.Keys!, recordMap);
+          if (deleted > 0) recordCount--;
+        }
+        if (record.eventName === 'INSERT' || (record.eventName === 'MODIFY' && !record.dynamodb!.OldImage)) {
+          const { inserted } = await this.insertTokens(record.dynamodb!.NewImage!, recordMap);
+          if (inserted > 0) recordCount++;
+        }
+      } catch (error) {
+        if (!reportBatchItemFailures) throw error;
+        // Lambda retries from the first failed record, so the records after it are left to the retry.
+        batchItemFailures.push({ itemIdentifier: record.dynamodb!.SequenceNumber! });
+        break;
       }
-      if (record.eventName === 'MODIFY' || record.eventName === 'INSERT') {
-        const { inserted } = await this.insertTokens(record.dynamodb!.NewImage!, resultMap);
-        if (inserted > 0) count++;
+      count += recordCount;
+      recordMap.forEach((value, attributeName) => resultMap.set(attributeName, (resultMap.get(attributeName) ?? 0) + value));
+      const processed = typeof this.versioning === 'object' && record.eventName === 'REMOVE' && sequenceNumber
+        ? { removed: sequenceNumber }
+        : { version, removed: indexed?.removed };
+      if (processed.version || processed.removed) {
+        versions.set(encodedKeys, processed);
+        processedVersions.set(encodedKeys, processed);
       }
     }
+    // Versions are recorded once the records have been indexed, so that records that failed are not skipped when retried.
+    await this.batchWrite([...processedVersions.entries()].map(([encodedKeys, { version, removed }]) => ({
+      PutRequest: {
+        Item: {
+          ...this.getVersionKey(encodedKeys),
+          ...(version ? { [DynamoSearch.ATTR_META_VERSION]: { N: version } } : {}),
+          ...(removed ? { [DynamoSearch.ATTR_META_REMOVED]: { N: removed } } : {}),
+        },
+      },
+    })));
     await this.updateMetadata({ count, resultMap });
+
+    return { batchItemFailures };
   }
 
-  async reindex(items: Record<string, AttributeValue>[]) {
+  async reindex(items: Record<string, AttributeValue>[]): Promise<void> {
+    if (this.aliasTableName) return (await this.resolveIndexTable()).reindex(items);
+    await this.reindexItems(items);
+  }
+
+  /**
+   * Reindexes items, reporting the write capacity units consumed by the postings written or deleted for each one to
+   * `throttle`.
+   */
+  private async reindexItems(items: Record<string, AttributeValue>[], throttle?: (units: number) => Promise<void>) {
     let count = 0;
     const resultMap = new Map<string, number>();
     for (let i = 0; i < items.length; i++) {
       const encoded = Object.fromEntries(Object.entries(items[i]).map(([key, value]) => [key, encodeBinaryAttribute(value)]));
-      const { deleted } = await this.deleteTokens(encoded, resultMap);
+      const { deleted, capacityUnits: deleteUnits } = await this.deleteTokens(encoded, resultMap);
       if (deleted > 0) count--;
-      const { inserted } = await this.insertTokens(encoded, resultMap);
+      const { inserted, capacityUnits: insertUnits } = await this.insertTokens(encoded, resultMap);
       if (inserted > 0) count++;
+      await throttle?.(deleteUnits + insertUnits);
     }
     await this.updateMetadata({ count, resultMap });
   }
 
-  async search(query: string, { attributes, maxItems = 100, minScore = 0, bm25: { k1 = 1.2, b = 0.75 } = {} }: SearchOptions = {}) {
-    const _attributes: (Attribute & { boost?: number })[] = attributes?.map((attributeName) => {
-      const attribute = this.attributes.find(attr => attr.name === attributeName.split('^')[0]);
-      const boost = parseFloat(attributeName.split('^')[1] || '1');
-      if (!attribute) {
-        throw new Error(`Attribute not found: ${attributeName}`);
+  private getCheckpointKey(sourceTableName: string, segment: number) {
+    const buffer = Buffer.alloc(2);
+    buffer.writeUInt16BE(segment, 0);
+    return {
+      [DynamoSearch.ATTR_PK]: { S: `_b;${sourceTableName}` },
+      [DynamoSearch.ATTR_SK]: { B: buffer },
+    };
+  }
+
+  /**
+   * Indexes every item of the source table, scanning its segments in parallel and indexing them page by page. The
+   * position of each segment is saved to the index table after every page, so that a backfill that was interrupted
+   * resumes from where it stopped when it is run again. Items are reindexed, so pages indexed twice are counted once.
+   */
+  async backfill({ sourceTableName, segments = 1, pageSize, writeCapacity }: BackfillOptions): Promise<{ scannedCount: number }> {
+    if (this.aliasTableName) return (await this.resolveIndexTable()).backfill({ sourceTableName, segments, pageSize, writeCapacity });
+    const throttle = writeCapacity ? createRateLimiter(writeCapacity) : undefined;
+    const checkpoints = await this.batchGet(Array.from({ length: segments }, (_, segment) => this.getCheckpointKey(sourceTableName, segment)));
+    checkpoints.forEach((checkpoint) => {
+      if (checkpoint[DynamoSearch.ATTR_BACKFILL_SEGMENTS].N !== segments.toString()) {
+        throw new Error(`A backfill of ${sourceTableName} with ${checkpoint[DynamoSearch.ATTR_BACKFILL_SEGMENTS].N} segments is in progress`);
       }
-      return { ...attribute, boost };
-    }) ?? this.attributes;
+    });
 
-    let consumedCapacity = 0;
-    const { docCount, tokenCount: tokenCountMap } = await this.getMetadata();
-    const candidates = new Map<string, number>();
-    for (let i = 0; i < _attributes.length; i++) {
-      const tokens = _attributes[i].analyzer.analyze(query);
-      const words = [...new Set(tokens.map(token => token.text))];
-      for (let j = 0; j < words.length; j++) {
-        const command = new QueryCommand({
-          TableName: this.indexTableName,
-          KeyConditionExpression: '#pk = :pk',
-          ProjectionExpression: '#sk, #keys',
-          ExpressionAttributeNames: {
-            '#pk': DynamoSearch.ATTR_PK,
-            '#sk': DynamoSearch.ATTR_SK,
-            '#keys': DynamoSearch.ATTR_KEYS,
-          },
-          ExpressionAttributeValues: {
-            ':pk': { S: `${_attributes[i].shortName || _attributes[i].name};${words[j]}` },
-          },
-          ReturnConsumedCapacity: 'TOTAL',
-          ScanIndexForward: false,
+    // When a segment fails, the others stop after their current page, so that the backfill is not running once it throws.
+    let failed = false;
+    const results = await Promise.allSettled(Array.from({ length: segments }, async (_, segment) => {
+      const key = this.getCheckpointKey(sourceTableName, segment);
+      const checkpoint = checkpoints.find(item => Buffer.compare(Buffer.from(item[DynamoSearch.ATTR_SK].B!), key[DynamoSearch.ATTR_SK].B) === 0);
+      if (checkpoint?.[DynamoSearch.ATTR_BACKFILL_DONE]?.BOOL) return 0;
+      let scannedCount = 0;
+      let exclusiveStartKey = checkpoint?.[DynamoSearch.ATTR_BACKFILL_POSITION]?.M;
+      try {
+        do {
+          const { Items = [], LastEvaluatedKey }: { Items?: Record<string, AttributeValue>[]; LastEvaluatedKey?: Record<string, AttributeValue> } = await this.retry(() => this.client.send(new ScanCommand({
+            TableName: sourceTableName,
+            Segment: segments > 1 ? segment : undefined,
+            TotalSegments: segments > 1 ? segments : undefined,
+            Limit: pageSize,
+            ExclusiveStartKey: exclusiveStartKey,
+          })));
+          await this.reindexItems(Items, throttle);
+          scannedCount += Items.length;
+          exclusiveStartKey = LastEvaluatedKey;
+          await this.retry(() => this.client.send(new PutItemCommand({
+            TableName: this.indexTableName,
+            Item: {
+              ...key,
+              [DynamoSearch.ATTR_BACKFILL_SEGMENTS]: { N: segments.toString() },
+              ...(exclusiveStartKey
+                ? { [DynamoSearch.ATTR_BACKFILL_POSITION]: { M: exclusiveStartKey } }
+                : { [DynamoSearch.ATTR_BACKFILL_DONE]: { BOOL: true } }),
+            },
+          })));
+        } while (exclusiveStartKey && !failed);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+      return scannedCount;
+    }));
+    const failure = results.find(result => result.status === 'rejected');
+    if (failure) throw failure.reason;
+    const scannedCounts = results.map(result => (result as PromiseFulfilledResult<number>).value);
+
+    // Checkpoints are kept until every segment is done, so that segments done before an interruption are not scanned again.
+    await this.batchWrite(Array.from({ length: segments }, (_, segment) => ({ DeleteRequest: { Key: this.getCheckpointKey(sourceTableName, segment) } })));
+    return { scannedCount: scannedCounts.reduce((a, b) => a + b, 0) };
+  }
+
+  private getPostingIssue(item: Record<string, AttributeValue>): PostingIssue {
+    const pk = item[DynamoSearch.ATTR_PK].S!;
+    const shortName = pk.slice(0, pk.indexOf(';'));
+    return {
+      keys: this.getDecodedKeys(item[DynamoSearch.ATTR_KEYS].S!),
+      attribute: this.attributes.find(attr => (attr.shortName || attr.name) === shortName)?.name ?? shortName,
+      token: pk.slice(pk.indexOf(';') + 1),
+    };
+  }
+
+  /**
+   * Checks the index against the source table. The postings expected from every item of the source table are compared
+   * with those stored for it, postings of items no longer in the source table are looked for, and the document and
+   * token counts of the metadata are compared with the totals of the source table. Postings are compared by their
+   * token, occurrence and token count; positions are not read. With `repair`, missing and stale postings are written,
+   * extra postings are deleted and the metadata is corrected.
+   */
+  async verify({ sourceTableName, repair = false }: { sourceTableName: string; repair?: boolean }): Promise<VerifyResult> {
+    if (this.aliasTableName) return (await this.resolveIndexTable()).verify({ sourceTableName, repair });
+    const missing: PostingIssue[] = [], extra: PostingIssue[] = [], stale: PostingIssue[] = [];
+    const sourceKeys = new Set<string>();
+    const expectedTokenCount = new Map(this.attributes.map(attr => [attr.name, 0]));
+    let scannedCount = 0, expectedDocCount = 0;
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined = undefined;
+    do {
+      const { Items = [], LastEvaluatedKey }: { Items?: Record<string, AttributeValue>[]; LastEvaluatedKey?: Record<string, AttributeValue> } = await this.retry(() => this.client.send(new ScanCommand({
+        TableName: sourceTableName,
+        ExclusiveStartKey: exclusiveStartKey,
+      })));
+      const results = await Promise.all(Items.map(source => this.limit(async () => {
+        const item = Object.fromEntries(Object.entries(source).map(([key, value]) => [key, encodeBinaryAttribute(value)]));
+        const encodedKeys = this.getEncodedKeys(item);
+        const expected = new Map<string, Record<string, AttributeValue>>();
+        const tokenCounts = this.attributes.map((attribute) => {
+          const { postings, tokenCount } = this.createPostings(attribute, item);
+          postings.forEach(posting => expected.set(posting[DynamoSearch.ATTR_PK].S, posting));
+          return tokenCount;
+        });
+        const result = { encodedKeys, tokenCounts, indexed: expected.size > 0, missing: [] as PostingIssue[], extra: [] as PostingIssue[], stale: [] as PostingIssue[], requests: [] as WriteRequest[] };
+        const stored = await this.queryKeysIndex(encodedKeys);
+        stored.forEach((keys) => {
+          const posting = expected.get(keys[DynamoSearch.ATTR_PK].S!);
+          expected.delete(keys[DynamoSearch.ATTR_PK].S!);
+          if (!posting) {
+            result.extra.push(this.getPostingIssue({ ...keys, [DynamoSearch.ATTR_KEYS]: { S: encodedKeys } }));
+            result.requests.push({ DeleteRequest: { Key: keys } });
+          } else if (Buffer.compare(Buffer.from(keys[DynamoSearch.ATTR_SK].B!), posting[DynamoSearch.ATTR_SK].B!) !== 0) {
+            result.stale.push(this.getPostingIssue(posting));
+            result.requests.push({ DeleteRequest: { Key: keys } }, { PutRequest: { Item: posting } });
+          }
+        });
+        expected.forEach((posting) => {
+          result.missing.push(this.getPostingIssue(posting));
+          result.requests.push({ PutRequest: { Item: posting } });
         });
-        const { Items, ConsumedCapacity } = await this.client.send(command);
-        consumedCapacity += ConsumedCapacity?.CapacityUnits ?? 0;
-        if (Items) {
-          const idf = Math.log(1 + (docCount - Items.length + 0.5) / (Items.length + 0.5));
-          Items.forEach((item) => {
-            const occurrence = Buffer.from(item[DynamoSearch.ATTR_SK].B!).readUInt16BE(0);
-            const tokenCount = Buffer.from(item[DynamoSearch.ATTR_SK].B!).readUInt32BE(2);
-            const encodedKeys = item[DynamoSearch.ATTR_KEYS].S!;
-            const averageTokenCount = tokenCountMap.get(_attributes[i].name)! / docCount;
-            const tf = occurrence / (occurrence + k1 * (1 - b + b * (tokenCount / averageTokenCount)));
-            const score = (_attributes[i].boost ?? 1) * tf * idf * (k1 + 1);
-            candidates.set(encodedKeys, (candidates.get(encodedKeys) ?? 0) + score);
-          });
+        return result;
+      })));
+
+      results.forEach((result) => {
+        sourceKeys.add(result.encodedKeys);
+        this.attributes.forEach((attr, i) => expectedTokenCount.set(attr.name, expectedTokenCount.get(attr.name)! + result.tokenCounts[i]));
+        if (result.indexed) expectedDocCount++;
+        missing.push(...result.missing);
+        extra.push(...result.extra);
+        stale.push(...result.stale);
+      });
+      if (repair) await this.batchWrite(results.flatMap(result => result.requests));
+      scannedCount += Items.length;
+      exclusiveStartKey = LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    // Postings of items that are no longer in the source table are only found by scanning the keys index.
+    const orphans: Record<string, AttributeValue>[] = [];
+    do {
+      const { Items = [], LastEvaluatedKey }: { Items?: Record<string, AttributeValue>[]; LastEvaluatedKey?: Record<string, AttributeValue> } = await this.retry(() => this.client.send(new ScanCommand({
+        TableName: this.indexTableName,
+        IndexName: DynamoSearch.INDEX_KEYS,
+        ExclusiveStartKey: exclusiveStartKey,
+      })));
+      orphans.push(...Items.filter(item => !sourceKeys.has(item[DynamoSearch.ATTR_KEYS].S!)));
+      exclusiveStartKey = LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    extra.push(...orphans.map(item => this.getPostingIssue(item)));
+    if (repair) {
+      await this.batchWrite(orphans.map(item => ({
+        DeleteRequest: { Key: { [DynamoSearch.ATTR_PK]: item[DynamoSearch.ATTR_PK], [DynamoSearch.ATTR_SK]: item[DynamoSearch.ATTR_SK] } },
+      })));
+    }
+
+    const { docCount, tokenCount } = await this.getMetadata();
+    const metadata = {
+      docCount: { stored: docCount, expected: expectedDocCount },
+      tokenCount: new Map([...expectedTokenCount].map(([name, expected]) => [name, { stored: tokenCount.get(name) ?? 0, expected }])),
+    };
+    const resultMap = new Map([...metadata.tokenCount].filter(([, { stored, expected }]) => stored !== expected).map(([name, { stored, expected }]) => [name, expected - stored]));
+    if (repair && (docCount !== expectedDocCount || resultMap.size > 0)) {
+      // The differences are added rather than the counts overwritten, so that updates made meanwhile are kept.
+      await this.updateMetadata({ count: expectedDocCount - docCount, resultMap });
+    }
+
+    return { scannedCount, missing, extra, stale, metadata };
+  }
+
+  private getChangeKey(encodedKeys: string) {
+    return {
+      [DynamoSearch.ATTR_PK]: { S: '_r' },
+      [DynamoSearch.ATTR_SK]: { B: Buffer.from(encodedKeys) },
+    };
+  }
+
+  /**
+   * Logs the keys of the documents changed by stream records to the index table being built, to be replayed by
+   * `rebuildIndexTable` once the source table has been indexed into it.
+   */
+  private async logChanges(records: DynamoDBRecord[]) {
+    const encodedKeys = new Set(records.map(record => this.getEncodedKeys(record.dynamodb!.Keys!)));
+    await this.batchWrite([...encodedKeys].map(keys => ({ PutRequest: { Item: this.getChangeKey(keys) } })));
+  }
+
+  /**
+   * Reindexes the documents logged as changed from their current items in the source table, until no changes are left.
+   */
+  private async replayChanges(sourceTableName: string) {
+    let replayed = 0;
+    for (;;) {
+      const { Items = [] } = await this.retry(() => this.client.send(new QueryCommand({
+        TableName: this.indexTableName,
+        KeyConditionExpression: '#pk = :pk',
+        ExpressionAttributeNames: { '#pk': DynamoSearch.ATTR_PK },
+        ExpressionAttributeValues: { ':pk': this.getChangeKey('')[DynamoSearch.ATTR_PK] },
+        ConsistentRead: true,
+      })));
+      if (Items.length === 0) return replayed;
+      // Changes are removed from the log before the items are read, so that changes logged meanwhile are replayed next.
+      await this.batchWrite(Items.map(item => ({ DeleteRequest: { Key: item } })));
+      const items = await Promise.all(Items.map(item => this.limit(async () => {
+        const keys: Record<string, any> = this.getDecodedKeys(Buffer.from(item[DynamoSearch.ATTR_SK].B!).toString());
+        const { Item } = await this.retry(() => this.client.send(new GetItemCommand({
+          TableName: sourceTableName,
+          Key: keys,
+          ConsistentRead: true,
+        })));
+        // Items deleted from the source table are reindexed from their keys only, which removes their postings.
+        return Item ?? keys;
+      })));
+      await this.reindex(items);
+      replayed += items.length;
+    }
+  }
+
+  /**
+   * Builds a new version of the index table from the source table and points the alias to it, while searches keep
+   * reading the current version. Stream records processed during the build are replayed from the source table before
+   * the alias is switched. If the build fails, the new table is deleted and the alias is left as it was. Requires
+   * `aliasTableName`.
+   */
+  async rebuildIndexTable({ sourceTableName, segments, writeCapacity, tableProperties }: Omit<BackfillOptions, 'pageSize'> & { tableProperties?: Partial<CreateTableCommandInput> }) {
+    if (!this.aliasTableName) {
+      throw new Error('rebuildIndexTable requires aliasTableName');
+    }
+    const alias = await this.getAlias();
+    if (!alias) {
+      throw new Error(`Alias not found: ${this.indexTableName}`);
+    }
+    if (alias.buildingTableName) {
+      throw new Error(`Index table already being built: ${alias.buildingTableName}. Call abortRebuild() if the build was interrupted.`);
+    }
+    const version = alias.version + 1;
+    const tableName = `${this.indexTableName}_v${version}`;
+    const builder = this.withIndexTable(tableName);
+    await builder.createIndexTable({ tableProperties });
+    try {
+      await waitUntilTableExists({ client: this.client, maxWaitTime: 300 }, { TableName: tableName });
+      await this.client.send(new UpdateItemCommand({
+        TableName: this.aliasTableName,
+        Key: { [DynamoSearch.ATTR_PK]: { S: this.indexTableName } },
+        UpdateExpression: 'SET #building = :building, #version = :version',
+        ConditionExpression: 'attribute_not_exists(#building) AND #version = :current',
+        ExpressionAttributeNames: {
+          '#building': DynamoSearch.ATTR_ALIAS_BUILDING_TABLE,
+          '#version': DynamoSearch.ATTR_META_VERSION,
+        },
+        ExpressionAttributeValues: {
+          ':building': { S: tableName },
+          ':version': { N: version.toString() },
+          ':current': { N: alias.version.toString() },
+        },
+      }));
+
+      await builder.backfill({ sourceTableName, segments, writeCapacity });
+      await builder.replayChanges(sourceTableName);
+
+      await this.client.send(new UpdateItemCommand({
+        TableName: this.aliasTableName,
+        Key: { [DynamoSearch.ATTR_PK]: { S: this.indexTableName } },
+        UpdateExpression: 'SET #table = :building REMOVE #building',
+        ConditionExpression: '#building = :building',
+        ExpressionAttributeNames: {
+          '#table': DynamoSearch.ATTR_ALIAS_TABLE,
+          '#building': DynamoSearch.ATTR_ALIAS_BUILDING_TABLE,
+        },
+        ExpressionAttributeValues: {
+          ':building': { S: tableName },
+        },
+      }));
+    } catch (error) {
+      // The table was created by this call, so no other build can be using it.
+      await this.removeBuildingTable(tableName);
+      throw error;
+    }
+    // Invocations that read the alias before it was switched may still have logged changes.
+    await builder.replayChanges(sourceTableName);
+
+    return { tableName, previousTableName: alias.tableName };
+  }
+
+  /**
+   * Cleans up after a `rebuildIndexTable` call that was interrupted before it could clean up itself, e.g., by a timeout:
+   * the table being built is deleted and removed from the alias, so that stream records are no longer logged into it and
+   * the index can be rebuilt again. A table created by a call interrupted before it was recorded in the alias is deleted
+   * too. Must not be called while a rebuild is running. Requires `aliasTableName`.
+   */
+  async abortRebuild() {
+    if (!this.aliasTableName) {
+      throw new Error('abortRebuild requires aliasTableName');
+    }
+    const alias = await this.getAlias();
+    if (!alias) {
+      throw new Error(`Alias not found: ${this.indexTableName}`);
+    }
+    const tableName = alias.buildingTableName ?? `${this.indexTableName}_v${alias.version + 1}`;
+    await this.removeBuildingTable(tableName);
+    return { tableName };
+  }
+
+  /**
+   * Deletes a previous version of the index table, which `rebuildIndexTable` leaves in place because searches that read
+   * the alias before it was switched may still be querying it. Call it once those searches have finished, e.g., a few
+   * minutes after the rebuild. The tables the alias points to cannot be deleted. Requires `aliasTableName`.
+   */
+  async deletePreviousIndexTable(tableName: string) {
+    if (!this.aliasTableName) {
+      throw new Error('deletePreviousIndexTable requires aliasTableName');
+    }
+    const alias = await this.getAlias();
+    if (tableName === alias?.tableName || tableName === alias?.buildingTableName) {
+      throw new Error(`Index table in use: ${tableName}`);
+    }
+    await this.withIndexTable(tableName).deleteIndexTable({ ifExists: true });
+  }
+
+  /**
+   * Removes a table being built from the alias, if it is recorded there, and deletes it.
+   */
+  private async removeBuildingTable(tableName: string) {
+    try {
+      await this.client.send(new UpdateItemCommand({
+        TableName: this.aliasTableName,
+        Key: { [DynamoSearch.ATTR_PK]: { S: this.indexTableName } },
+        UpdateExpression: 'REMOVE #building',
+        ConditionExpression: '#building = :building',
+        ExpressionAttributeNames: { '#building': DynamoSearch.ATTR_ALIAS_BUILDING_TABLE },
+        ExpressionAttributeValues: { ':building': { S: tableName } },
+      }));
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+    await this.withIndexTable(tableName).deleteIndexTable({ ifExists: true });
+  }
+
+  private getPartitionKey(attribute: Attribute, token: string) {
+    return `${attribute.shortName || attribute.name};${token}`;
+  }
+
+  private async readPostings(attribute: Attribute, token: string, { limit, exclusiveStartKey }: { limit?: number; exclusiveStartKey?: Record<string, AttributeValue> } = {}) {
+    const { Items, LastEvaluatedKey, ConsumedCapacity } = await this.retry(() => this.client.send(new QueryCommand({
+      TableName: this.indexTableName,
+      KeyConditionExpression: '#pk = :pk',
+      ProjectionExpression: '#sk, #keys, #positions',
+      ExpressionAttributeNames: {
+        '#pk': DynamoSearch.ATTR_PK,
+        '#sk': DynamoSearch.ATTR_SK,
+        '#keys': DynamoSearch.ATTR_KEYS,
+        '#positions': DynamoSearch.ATTR_POSITIONS,
+      },
+      ExpressionAttributeValues: {
+        ':pk': { S: this.getPartitionKey(attribute, token) },
+      },
+      ReturnConsumedCapacity: 'TOTAL',
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: exclusiveStartKey,
+    })));
+    const postings: Posting[] = (Items ?? []).map(item => ({
+      keys: item[DynamoSearch.ATTR_KEYS].S!,
+      occurrence: Buffer.from(item[DynamoSearch.ATTR_SK].B!).readUInt16BE(0),
+      tokenCount: Buffer.from(item[DynamoSearch.ATTR_SK].B!).readUInt32BE(2),
+      positions: item[DynamoSearch.ATTR_POSITIONS] ? decodePositions(item[DynamoSearch.ATTR_POSITIONS].B!) : undefined,
+    }));
+    return { postings, lastEvaluatedKey: LastEvaluatedKey, capacityUnits: ConsumedCapacity?.CapacityUnits ?? 0 };
+  }
+
+  private async countPostings(attribute: Attribute, token: string, exclusiveStartKey?: Record<string, AttributeValue>) {
+    let count = 0, capacityUnits = 0;
+    do {
+      const { Count, LastEvaluatedKey, ConsumedCapacity }: QueryCommandOutput = await this.retry(() => this.client.send(new QueryCommand({
+        TableName: this.indexTableName,
+        KeyConditionExpression: '#pk = :pk',
+        ExpressionAttributeNames: {
+          '#pk': DynamoSearch.ATTR_PK,
+        },
+        ExpressionAttributeValues: {
+          ':pk': { S: this.getPartitionKey(attribute, token) },
+        },
+        ReturnConsumedCapacity: 'TOTAL',
+        ScanIndexForward: false,
+        Select: 'COUNT',
+        ExclusiveStartKey: exclusiveStartKey,
+      })));
+      capacityUnits += ConsumedCapacity?.CapacityUnits ?? 0;
+      count += Count ?? 0;
+      exclusiveStartKey = LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return { count, capacityUnits };
+  }
+
+  private async queryPostings(attribute: Attribute, token: string, maxPostings = Infinity) {
+    const postings: Posting[] = [];
+    let capacityUnits = 0;
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined = undefined;
+    do {
+      const result = await this.readPostings(attribute, token, {
+        limit: Number.isFinite(maxPostings) ? Math.max(1, maxPostings - postings.length) : undefined,
+        exclusiveStartKey,
+      });
+      capacityUnits += result.capacityUnits;
+      postings.push(...result.postings);
+      exclusiveStartKey = result.lastEvaluatedKey;
+    } while (exclusiveStartKey && postings.length < maxPostings);
+
+    // Count the postings beyond the budget, so that the document frequency stays exact.
+    let documentFrequency = postings.length;
+    if (exclusiveStartKey) {
+      const { count, capacityUnits: countCapacityUnits } = await this.countPostings(attribute, token, exclusiveStartKey);
+      capacityUnits += countCapacityUnits;
+      documentFrequency += count;
+    }
+
+    return { postings, documentFrequency, capacityUnits };
+  }
+
+  /**
+   * Returns the document frequency of a term whose postings have been read only partially. It is cached in the index table
+   * for `maxAge` seconds, so that it does not have to be counted on every search.
+   */
+  private async getDocumentFrequency(attribute: Attribute, token: string, { read, exclusiveStartKey, maxAge }: { read: number; exclusiveStartKey: Record<string, AttributeValue>; maxAge: number }) {
+    const key = {
+      [DynamoSearch.ATTR_PK]: { S: `_df;${this.getPartitionKey(attribute, token)}` },
+      [DynamoSearch.ATTR_SK]: { B: Buffer.alloc(1) },
+    };
+    const { Item, ConsumedCapacity } = await this.retry(() => this.client.send(new GetItemCommand({
+      TableName: this.indexTableName,
+      Key: key,
+      ReturnConsumedCapacity: 'TOTAL',
+    })));
+    let capacityUnits = ConsumedCapacity?.CapacityUnits ?? 0;
+    if (Item && Date.now() - parseInt(Item[DynamoSearch.ATTR_META_UPDATED_AT].N!) < maxAge * 1000) {
+      return { documentFrequency: Math.max(read, parseInt(Item[DynamoSearch.ATTR_META_DOCUMENT_COUNT].N!)), capacityUnits };
+    }
+
+    const { count, capacityUnits: countCapacityUnits } = await this.countPostings(attribute, token, exclusiveStartKey);
+    const documentFrequency = read + count;
+    const { ConsumedCapacity: putConsumedCapacity } = await this.retry(() => this.client.send(new PutItemCommand({
+      TableName: this.indexTableName,
+      Item: {
+        ...key,
+        [DynamoSearch.ATTR_META_DOCUMENT_COUNT]: { N: documentFrequency.toString() },
+        [DynamoSearch.ATTR_META_UPDATED_AT]: { N: Date.now().toString() },
+      },
+      ReturnConsumedCapacity: 'TOTAL',
+    })));
+    capacityUnits += countCapacityUnits + (putConsumedCapacity?.CapacityUnits ?? 0);
+    return { documentFrequency, capacityUnits };
+  }
+
+  /**
+   * Looks up the postings of a term for the documents whose hash starts with the given byte, through the hash index.
+   * They are keyed by the first 8 bytes of the hash of the document keys, which are part of the sort key.
+   */
+  private async lookupPostings(attribute: Attribute, token: string, hash: number) {
+    const postings = new Map<string, { occurrence: number; tokenCount: number }>();
+    let capacityUnits = 0;
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined = undefined;
+    do {
+      const { Items, LastEvaluatedKey, ConsumedCapacity }: QueryCommandOutput = await this.retry(() => this.client.send(new QueryCommand({
+        TableName: this.indexTableName,
+        IndexName: DynamoSearch.INDEX_HASH,
+        KeyConditionExpression: '#pk = :pk AND #hash = :hash',
+        ExpressionAttributeNames: {
+          '#pk': DynamoSearch.ATTR_PK,
+          '#hash': DynamoSearch.ATTR_HASH,
+        },
+        ExpressionAttributeValues: {
+          ':pk': { S: this.getPartitionKey(attribute, token) },
+          ':hash': { B: Buffer.from([hash]) },
+        },
+        ReturnConsumedCapacity: 'TOTAL',
+        ExclusiveStartKey: exclusiveStartKey,
+      })));
+      capacityUnits += ConsumedCapacity?.CapacityUnits ?? 0;
+      (Items ?? []).forEach((item) => {
+        const sortKey = Buffer.from(item[DynamoSearch.ATTR_SK].B!);
+        postings.set(sortKey.subarray(6, 14).toString('hex'), { occurrence: sortKey.readUInt16BE(0), tokenCount: sortKey.readUInt32BE(2) });
+      });
+      exclusiveStartKey = LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return { postings, capacityUnits };
+  }
+
+  /**
+   * Collects the postings needed to score the top `k` documents of a sum of term queries (MaxScore). Postings are read
+   * page by page in descending order of occurrence, starting with the term that can contribute the most, until the terms left
+   * cannot lift any unseen document above the k-th best score. The documents that may still make it are then completed
+   * by looking up their remaining postings, unless reading the rest of a term takes fewer queries. The returned posting
+   * lists only contain these documents.
+   */
+  private async collectTopPostings(clauses: TermClause[], { k, minScore, maxPostings = Infinity, statisticsMaxAge }: { k: number; minScore: number; maxPostings?: number; statisticsMaxAge: number }, context: SearchContext) {
+    const merged = new Map<string, TermClause>();
+    clauses.forEach((clause) => {
+      const key = `${clause.attribute.name};${clause.value}`;
+      merged.set(key, { ...clause, boost: (merged.get(key)?.boost ?? 0) + clause.boost });
+    });
+    const terms = [...merged.entries()].map(([key, { attribute, value, boost }]) => ({
+      key,
+      attribute,
+      token: value,
+      boost,
+      postings: new Map<string, Posting>(),
+      documentFrequency: 0,
+      idf: 0,
+      upperBound: Infinity,
+      exclusiveStartKey: undefined as Record<string, AttributeValue> | undefined,
+      exhausted: false,
+      capped: false,
+    }));
+    const scores = new Map<string, number>();
+    let capacityUnits = 0;
+    const getThreshold = () => {
+      const best = [...scores.values()].sort((a, b) => b - a);
+      return best.length >= k ? Math.max(minScore, best[k - 1]) : minScore;
+    };
+    const getUpperBound = (list: typeof terms) => list.reduce((sum, term) => sum + term.upperBound, 0);
+
+    const readPage = async (term: typeof terms[number]) => {
+      const read = term.postings.size;
+      const result = await this.limit(() => this.readPostings(term.attribute, term.token, {
+        limit: Math.max(1, Math.min(POSTINGS_PAGE_SIZE, maxPostings - read)),
+        exclusiveStartKey: term.exclusiveStartKey,
+      }));
+      capacityUnits += result.capacityUnits;
+      result.postings.forEach(posting => term.postings.set(posting.keys, posting));
+      term.exclusiveStartKey = result.lastEvaluatedKey;
+      term.exhausted = !result.lastEvaluatedKey || term.postings.size >= maxPostings;
+      term.capped = !!result.lastEvaluatedKey && term.exhausted;
+      if (read === 0) {
+        if (result.lastEvaluatedKey) {
+          const statistics = await this.limit(() => this.getDocumentFrequency(term.attribute, term.token, {
+            read: term.postings.size,
+            exclusiveStartKey: result.lastEvaluatedKey!,
+            maxAge: statisticsMaxAge,
+          }));
+          capacityUnits += statistics.capacityUnits;
+          term.documentFrequency = statistics.documentFrequency;
+        } else {
+          term.documentFrequency = term.postings.size;
         }
+        term.idf = context.getIdf(term.documentFrequency);
+      }
+      return result.postings;
+    };
+    const addPostings = (term: typeof terms[number], postings: Posting[]) => {
+      postings.forEach(({ keys, occurrence, tokenCount }) => {
+        scores.set(keys, (scores.get(keys) ?? 0) + term.boost * context.getScore(term.attribute, occurrence, tokenCount, term.idf));
+      });
+      // The postings left have no more occurrences than the last one read, in documents at least as long as these occurrences.
+      const last = postings[postings.length - 1];
+      term.upperBound = last ? term.boost * context.getScore(term.attribute, last.occurrence, last.occurrence, term.idf) : 0;
+    };
+
+    // The first page of every term has to be read anyway, so they are read in parallel.
+    const firstPages = await Promise.all(terms.map(readPage));
+    terms.forEach((term, i) => addPostings(term, firstPages[i]));
+    while (true) {
+      const active = terms.filter(term => !term.exhausted);
+      if (active.length === 0 || getUpperBound(active) < getThreshold()) break;
+      const term = active.reduce((a, b) => (b.upperBound > a.upperBound ? b : a));
+      addPostings(term, await readPage(term));
+    }
+
+    const getCandidates = () => {
+      const threshold = getThreshold();
+      const active = terms.filter(term => !term.exhausted);
+      const candidates = new Map<string, { hash: Buffer; missing: typeof terms }>();
+      scores.forEach((score, keys) => {
+        const missing = active.filter(term => !term.postings.has(keys));
+        if (score + getUpperBound(missing) >= threshold) {
+          candidates.set(keys, { hash: createHash('md5').update(keys).digest(), missing });
+        }
+      });
+      return candidates;
+    };
+    let candidates = getCandidates();
+    // Each lookup is a query of its own, so a term that needs more lookups than pages left to read is read to the end instead.
+    // So is a term with more postings than `maxPostings`, since lookups would find postings beyond those it is capped to.
+    for (const term of terms) {
+      if (term.exhausted) continue;
+      const hashes = new Set([...candidates.values()].filter(({ missing }) => missing.includes(term)).map(({ hash }) => hash[0]));
+      const pagesLeft = Math.ceil((Math.min(term.documentFrequency, maxPostings) - term.postings.size) / POSTINGS_PAGE_SIZE);
+      if (hashes.size > pagesLeft || term.documentFrequency > maxPostings) {
+        while (!term.exhausted) addPostings(term, await readPage(term));
+        candidates = getCandidates();
+      }
+    }
+    const lookups = new Map<string, Promise<Map<string, { occurrence: number; tokenCount: number }>>>();
+    candidates.forEach(({ hash, missing }) => missing.forEach((term) => {
+      const lookupKey = `${term.key};${hash[0]}`;
+      if (!lookups.has(lookupKey)) {
+        lookups.set(lookupKey, this.limit(() => this.lookupPostings(term.attribute, term.token, hash[0])).then((result) => {
+          capacityUnits += result.capacityUnits;
+          return result.postings;
+        }));
+      }
+    }));
+    await Promise.all(lookups.values());
+    for (const [keys, { hash, missing }] of candidates) {
+      for (const term of missing) {
+        const posting = (await lookups.get(`${term.key};${hash[0]}`)!).get(hash.subarray(0, 8).toString('hex'));
+        if (posting) term.postings.set(keys, { keys, ...posting });
       }
     }
 
     return {
-      items: [...candidates.entries()]
-        .filter(([, score]) => score >= minScore)
-        .sort(([, score_A], [, score_B]) => score_B - score_A)
-        .slice(0, maxItems)
-        .map(([key, score]) => ({
-          keys: this.getDecodedKeys(key),
-          score,
+      postingLists: new Map(terms.map(term => [term.key, {
+        postings: [...term.postings.values()].filter(posting => candidates.has(posting.keys)),
+        documentFrequency: term.documentFrequency,
+      }])),
+      cappedTerms: terms.filter(term => term.capped).map(term => ({ attribute: term.attribute.name, term: term.token })),
+      capacityUnits,
+    };
+  }
+
+  private getAttribute(attributeName: string) {
+    const attribute = this.attributes.find(attr => attr.name === attributeName.split('^')[0]);
+    const boost = parseFloat(attributeName.split('^')[1] || '1');
+    if (!attribute) {
+      throw new Error(`Attribute not found: ${attributeName}`);
+    }
+    return { attribute, boost };
+  }
+
+  /**
+   * Analyzes the text of a query with the search analyzer of the attribute into its distinct terms, each listing the
+   * alternatives read at its positions, such as a word and its synonyms.
+   */
+  private analyzeTerms(attribute: Attribute, text: string) {
+    const terms = new Map<string, string[][]>();
+    getSegments((attribute.searchAnalyzer ?? attribute.analyzer).analyze(text)).forEach(({ alternatives }) => {
+      if (alternatives.length > 0) terms.set(JSON.stringify(alternatives), alternatives);
+    });
+    return [...terms.values()];
+  }
+
+  private parseSimpleQuery(query: string, { attributes, operator = 'or', minimumShouldMatch = 1 }: SearchOptions): Query {
+    const { text, phrases, mustNot } = parseQuery(query);
+    const targets = attributes?.map(attributeName => this.getAttribute(attributeName)) ?? this.attributes.map(attribute => ({ attribute, boost: 1 }));
+    const toClauses = ({ attribute, boost }: { attribute: Attribute; boost: number }, text: string, phrases: Phrase[]): Query[] => [
+      ...this.analyzeTerms(attribute, text).map(alternatives => toTermQuery(attribute.name, alternatives, boost)),
+      ...phrases
+        .filter(phrase => (attribute.searchAnalyzer ?? attribute.analyzer).analyze(phrase.text).length > 0)
+        .map(({ text, slop }) => ({ phrase: { attribute: attribute.name, query: text, slop, boost } })),
+    ];
+    return {
+      bool: {
+        should: targets.map(target => ({
+          bool: {
+            should: toClauses(target, text, phrases),
+            minimumShouldMatch: operator === 'and' ? '100%' : minimumShouldMatch,
+          },
         })),
+        mustNot: targets.flatMap(target => toClauses(target, mustNot.text, mustNot.phrases)),
+      },
+    };
+  }
+
+  /**
+   * Flattens a query into weighted terms if its score is the sum of the scores of the terms it matches, as is the case
+   * for disjunctions of terms. Returns `undefined` for any other query.
+   */
+  private getTermClauses(query: Query, boost = 1): TermClause[] | undefined {
+    if ('term' in query) {
+      const { attribute } = this.getAttribute(query.term.attribute);
+      return [{ attribute, value: query.term.value, boost: boost * (query.term.boost ?? 1) }];
+    }
+    if ('match' in query) {
+      const { attribute: attributeName, query: text, operator = 'or', minimumShouldMatch = 1, boost: matchBoost = 1 } = query.match;
+      const { attribute } = this.getAttribute(attributeName);
+      const terms = this.analyzeTerms(attribute, text);
+      const required = operator === 'and' ? terms.length : getMinimumShouldMatch(minimumShouldMatch, terms.length);
+      if (required > 1 || terms.some(alternatives => alternatives.length > 1)) return undefined;
+      return terms.map(([[value]]) => ({ attribute, value, boost: boost * matchBoost }));
+    }
+    if ('multiMatch' in query) {
+      const { query: text, attributes, type = 'most_fields', operator, minimumShouldMatch, boost: multiMatchBoost = 1 } = query.multiMatch;
+      const targets = attributes?.map(attributeName => this.getAttribute(attributeName)) ?? this.attributes.map(attribute => ({ attribute, boost: 1 }));
+      if (type !== 'most_fields' && targets.length > 1) return undefined;
+      const clauses = targets.map(target => this.getTermClauses({
+        match: { attribute: target.attribute.name, query: text, operator, minimumShouldMatch, boost: target.boost },
+      }, boost * multiMatchBoost));
+      return clauses.every(clause => clause) ? clauses.flat() as TermClause[] : undefined;
+    }
+    if ('bool' in query) {
+      const { must = [], should = [], mustNot = [], filter = [], minimumShouldMatch = 1, boost: boolBoost = 1 } = query.bool;
+      if (must.length > 0 || mustNot.length > 0 || filter.length > 0) return undefined;
+      if (getMinimumShouldMatch(minimumShouldMatch, should.length) > 1) return undefined;
+      const clauses = should.map(clause => this.getTermClauses(clause, boost * boolBoost));
+      return clauses.every(clause => clause) ? clauses.flat() as TermClause[] : undefined;
+    }
+    if ('queryString' in query) {
+      const { query: text, defaultAttributes, defaultOperator, boost: queryStringBoost = 1 } = query.queryString;
+      const parser = new QueryStringParser({ attributes: this.attributes, defaultAttributes, defaultOperator });
+      return this.getTermClauses(parser.parse(text), boost * queryStringBoost);
+    }
+    return undefined;
+  }
+
+  private async evaluateQuery(query: Query, context: SearchContext): Promise<Map<string, number>> {
+    if ('match' in query) return this.evaluateMatchQuery(query, context);
+    if ('term' in query) return this.evaluateTermQuery(query, context);
+    if ('synonym' in query) return this.evaluateSynonymQuery(query, context);
+    if ('phrase' in query) return this.evaluatePhraseQuery(query, context);
+    if ('bool' in query) return this.evaluateBoolQuery(query, context);
+    if ('multiMatch' in query) return this.evaluateMultiMatchQuery(query, context);
+    if ('boosting' in query) return this.evaluateBoostingQuery(query, context);
+    if ('constantScore' in query) return this.evaluateConstantScoreQuery(query, context);
+    if ('queryString' in query) return this.evaluateQueryStringQuery(query, context);
+    throw new Error(`Unsupported query: ${JSON.stringify(query)}`);
+  }
+
+  private async evaluateMatchQuery({ match: { attribute: attributeName, query, operator = 'or', minimumShouldMatch = 1, boost } }: MatchQuery, context: SearchContext) {
+    const { attribute } = this.getAttribute(attributeName);
+    const terms = this.analyzeTerms(attribute, query);
+    const clauses = await Promise.all(terms.map(alternatives => this.evaluateQuery(toTermQuery(attribute.name, alternatives), context)));
+    const required = operator === 'and' ? clauses.length : getMinimumShouldMatch(minimumShouldMatch, clauses.length);
+    return scaleScores(combineClauses(clauses, required), boost);
+  }
+
+  private async evaluateTermQuery({ term: { attribute: attributeName, value, boost = 1 } }: TermQuery, context: SearchContext) {
+    const { attribute } = this.getAttribute(attributeName);
+    const { postings, documentFrequency } = await context.getPostings(attribute, value);
+    const idf = context.getIdf(documentFrequency);
+    return new Map(postings.map(({ keys, occurrence, tokenCount }) => [keys, boost * context.getScore(attribute, occurrence, tokenCount, idf)]));
+  }
+
+  private async evaluateSynonymQuery({ synonym: { attribute: attributeName, terms, boost } }: SynonymQuery, context: SearchContext) {
+    const { attribute } = this.getAttribute(attributeName);
+    const alternatives = terms.map(term => typeof term === 'string' ? [term] : term).map(words => ({ words, offsets: words.map((_, i) => i) }));
+    return scaleScores(await this.scoreAlternatives(attribute, alternatives, context), boost);
+  }
+
+  private async evaluatePhraseQuery({ phrase: { attribute: attributeName, query, slop = 0, boost } }: PhraseQuery, context: SearchContext) {
+    const { attribute } = this.getAttribute(attributeName);
+    const segments = getSegments((attribute.searchAnalyzer ?? attribute.analyzer).analyze(query));
+    if (segments.length === 0) return new Map<string, number>();
+    // Each sequence of synonyms the phrase can be read as is an alternative of the others.
+    return scaleScores(await this.scoreAlternatives(attribute, getPaths(segments), context, slop), boost);
+  }
+
+  /**
+   * Scores the documents matching any of the alternatives as if they were a single term, which occurs as often as the
+   * alternatives together and is as common as the most common of them. Alternatives of several words, and all of them when
+   * `slop` is given, are matched as phrases against the positions of their postings.
+   */
+  private async scoreAlternatives(attribute: Attribute, alternatives: { words: string[]; offsets: number[] }[], context: SearchContext, slop?: number) {
+    const results = await Promise.all(alternatives.map(async ({ words, offsets }) => {
+      const postingLists = await Promise.all(words.map(word => context.getPostings(attribute, word)));
+      if (words.length === 1 && slop === undefined) {
+        return {
+          idf: context.getIdf(postingLists[0].documentFrequency),
+          matches: postingLists[0].postings.map(({ keys, occurrence, tokenCount }) => ({ keys, frequency: occurrence, tokenCount })),
+        };
+      }
+      const termPostings = postingLists.map(({ postings }) => new Map(postings.map(posting => [posting.keys, posting])));
+      const matches: { keys: string; frequency: number; tokenCount: number }[] = [];
+      termPostings[0].forEach(({ keys, tokenCount }) => {
+        const positions = termPostings.map(postings => postings.get(keys)?.positions);
+        if (positions.some(list => !list)) return;
+        const frequency = getPhraseFrequency(positions as number[][], offsets, slop ?? 0);
+        if (frequency > 0) matches.push({ keys, frequency, tokenCount });
+      });
+      return { idf: postingLists.reduce((sum, { documentFrequency }) => sum + context.getIdf(documentFrequency), 0), matches };
+    }));
+    const idf = Math.min(...results.map(result => result.idf));
+    const documents = new Map<string, { frequency: number; tokenCount: number }>();
+    results.forEach(({ matches }) => matches.forEach(({ keys, frequency, tokenCount }) => {
+      documents.set(keys, { frequency: (documents.get(keys)?.frequency ?? 0) + frequency, tokenCount });
+    }));
+    return new Map([...documents.entries()].map(([keys, { frequency, tokenCount }]) => [keys, context.getScore(attribute, frequency, tokenCount, idf)]));
+  }
+
+  private async evaluateBoolQuery({ bool: { must = [], should = [], mustNot = [], filter = [], minimumShouldMatch, boost } }: BoolQuery, context: SearchContext) {
+    const evaluate = (queries: Query[]) => Promise.all(queries.map(query => this.evaluateQuery(query, context)));
+    const [mustMatches, filterMatches, shouldMatches, mustNotMatches] = await Promise.all([must, filter, should, mustNot].map(evaluate));
+
+    let matches: Map<string, number>;
+    const required = [...mustMatches, ...filterMatches];
+    if (required.length > 0) {
+      const requiredShould = getMinimumShouldMatch(minimumShouldMatch ?? 0, shouldMatches.length);
+      matches = new Map();
+      required[0].forEach((_, keys) => {
+        if (!required.every(clause => clause.has(keys))) return;
+        const matchedShould = shouldMatches.filter(clause => clause.has(keys));
+        if (matchedShould.length < requiredShould) return;
+        const score = [...mustMatches, ...matchedShould].reduce((sum, clause) => sum + clause.get(keys)!, 0);
+        matches.set(keys, score);
+      });
+    } else {
+      matches = combineClauses(shouldMatches, getMinimumShouldMatch(minimumShouldMatch ?? 1, shouldMatches.length));
+    }
+    mustNotMatches.forEach(clause => clause.forEach((_, keys) => matches.delete(keys)));
+    return scaleScores(matches, boost);
+  }
+
+  private async evaluateMultiMatchQuery({ multiMatch: { query, attributes, type = 'most_fields', tieBreaker = 0, operator, minimumShouldMatch, boost } }: MultiMatchQuery, context: SearchContext) {
+    const targets = attributes?.map(attributeName => this.getAttribute(attributeName)) ?? this.attributes.map(attribute => ({ attribute, boost: 1 }));
+    const results = await Promise.all(targets.map(target => this.evaluateMatchQuery({
+      match: { attribute: target.attribute.name, query, operator, minimumShouldMatch, boost: target.boost },
+    }, context)));
+    const matches = new Map<string, number[]>();
+    results.forEach(result => result.forEach((score, keys) => matches.set(keys, [...(matches.get(keys) ?? []), score])));
+    return scaleScores(new Map([...matches.entries()].map(([keys, scores]) => {
+      const sum = scores.reduce((a, b) => a + b, 0);
+      if (type === 'most_fields') return [keys, sum];
+      const max = Math.max(...scores);
+      return [keys, max + tieBreaker * (sum - max)];
+    })), boost);
+  }
+
+  private async evaluateBoostingQuery({ boosting: { positive, negative, negativeBoost } }: BoostingQuery, context: SearchContext) {
+    const [positiveMatches, negativeMatches] = await Promise.all([positive, negative].map(query => this.evaluateQuery(query, context)));
+    return new Map([...positiveMatches.entries()].map(([keys, score]) => [keys, negativeMatches.has(keys) ? score * negativeBoost : score]));
+  }
+
+  private async evaluateConstantScoreQuery({ constantScore: { filter, boost = 1 } }: ConstantScoreQuery, context: SearchContext) {
+    const matches = await this.evaluateQuery(filter, context);
+    return new Map([...matches.keys()].map(keys => [keys, boost]));
+  }
+
+  private async evaluateQueryStringQuery({ queryString: { query, defaultAttributes, defaultOperator, boost } }: QueryStringQuery, context: SearchContext) {
+    const parser = new QueryStringParser({ attributes: this.attributes, defaultAttributes, defaultOperator });
+    return scaleScores(await this.evaluateQuery(parser.parse(query), context), boost);
+  }
+
+  async search(query: string | Query, options: SearchOptions = {}): Promise<SearchResult> {
+    if (this.aliasTableName) {
+      const alias = await this.getAlias();
+      if (!alias) {
+        throw new Error(`Alias not found: ${this.indexTableName}`);
+      }
+      const result = await this.withIndexTable(alias.tableName).search(query, options);
+      // The read of the alias is counted too, although it is made on the alias table.
+      result.consumedCapacity.capacityUnits += alias.capacityUnits;
+      return result;
+    }
+    const { maxItems = 100, minScore = 0, bm25: { k1 = 1.2, b = 0.75 } = {}, nextToken, maxPostingsPerTerm, earlyTermination, termStatisticsMaxAge = 3600 } = options;
+    let consumedCapacity = 0;
+    // Subsequent pages are scored with the statistics of the first page, so that the order of the results stays stable.
+    const cursor = nextToken ? decodeNextToken(nextToken) : undefined;
+    const { docCount, tokenCount: tokenCountMap, fingerprint } = cursor
+      ? { docCount: cursor.docCount, tokenCount: new Map(cursor.tokenCount), fingerprint: undefined }
+      : await this.readMetadata();
+    this.checkFingerprint(fingerprint);
+    const documentFrequencies = new Map(cursor?.documentFrequencies);
+    const postingsMap = new Map<string, Promise<PostingList>>();
+    const cappedTerms = new Map<string, { attribute: string; term: string }>();
+    const context: SearchContext = {
+      getPostings: (attribute, token) => {
+        const key = `${attribute.name};${token}`;
+        if (!postingsMap.has(key)) {
+          postingsMap.set(key, this.limit(() => this.queryPostings(attribute, token, maxPostingsPerTerm)).then(({ postings, documentFrequency, capacityUnits }) => {
+            consumedCapacity += capacityUnits;
+            if (documentFrequency > postings.length) {
+              cappedTerms.set(key, { attribute: attribute.name, term: token });
+            }
+            return { postings, documentFrequency: documentFrequencies.get(key) ?? documentFrequency };
+          }));
+        }
+        return postingsMap.get(key)!;
+      },
+      getIdf: frequency => Math.log(1 + (docCount - frequency + 0.5) / (frequency + 0.5)),
+      getScore: (attribute, frequency, tokenCount, idf) => {
+        const averageTokenCount = tokenCountMap.get(attribute.name)! / docCount;
+        const tf = frequency / (frequency + k1 * (1 - b + b * (tokenCount / averageTokenCount)));
+        return tf * idf * (k1 + 1);
+      },
+    };
+    const resolvedQuery = typeof query === 'string' ? this.parseSimpleQuery(query, options) : query;
+    // Early termination only applies to the first page, since later ones would have to skip the results already returned.
+    const clauses = earlyTermination && !cursor ? this.getTermClauses(resolvedQuery) : undefined;
+    if (clauses?.every(clause => clause.boost >= 0)) {
+      const result = await this.collectTopPostings(clauses, {
+        k: maxItems + 1,
+        minScore,
+        maxPostings: maxPostingsPerTerm,
+        statisticsMaxAge: termStatisticsMaxAge,
+      }, context);
+      consumedCapacity += result.capacityUnits;
+      result.postingLists.forEach((postingList, key) => postingsMap.set(key, Promise.resolve(postingList)));
+      result.cappedTerms.forEach(term => cappedTerms.set(`${term.attribute};${term.term}`, term));
+    }
+    const candidates = await this.evaluateQuery(resolvedQuery, context);
+    const results = [...candidates.entries()]
+      .filter(([, score]) => score >= minScore)
+      .filter(result => !cursor || compareResults(result, [cursor.keys, cursor.score]) > 0)
+      .sort(compareResults);
+    const items = results.slice(0, maxItems);
+    const last = items[items.length - 1];
+
+    return {
+      items: items.map(([key, score]) => ({
+        keys: this.getDecodedKeys(key),
+        score,
+      })),
+      nextToken: last && results.length > maxItems
+        ? encodeNextToken({
+          score: last[1],
+          keys: last[0],
+          docCount,
+          tokenCount: [...tokenCountMap.entries()],
+          documentFrequencies: await Promise.all([...postingsMap.entries()].map(async ([key, postingList]): Promise<[string, number]> => [key, (await postingList).documentFrequency])),
+        })
+        : undefined,
+      // Listed in the order the terms appear in the query, regardless of the order their postings were read in.
+      cappedTerms: [...postingsMap.keys()].flatMap(key => cappedTerms.get(key) ?? []),
       consumedCapacity: {
         capacityUnits: consumedCapacity,
         tableName: this.indexTableName,
@@ -0,0 +1,109 @@
+export interface MatchQuery {
+  match: {
+    attribute: string;
+    /** The text to search for. It is analyzed with the search analyzer of the attribute. */
+    query: string;
+    /** Whether all the analyzed terms must match (`and`) or any of them (`or`). */
+    operator?: 'and' | 'or';
+    /** The minimum number of terms that should match, as a count (e.g., `2`, `-1`) or a percentage (e.g., `'75%'`). */
+    minimumShouldMatch?: number | string;
+    boost?: number;
+  };
+}
+
+export interface TermQuery {
+  term: {
+    attribute: string;
+    /** The exact token to search for. It is not analyzed. */
+    value: string;
+    boost?: number;
+  };
+}
+
+export interface SynonymQuery {
+  synonym: {
+    attribute: string;
+    /**
+     * Exact tokens that are alternatives of each other, such as a word and its synonyms. Arrays of tokens are matched as
+     * phrases. Documents are scored as if the alternatives were a single term.
+     */
+    terms: (string | string[])[];
+    boost?: number;
+  };
+}
+
+export interface PhraseQuery {
+  phrase: {
+    attribute: string;
+    /** The phrase to search for. It is analyzed with the search analyzer of the attribute. */
+    query: string;
+    /** The maximum number of positions allowed between the terms of the phrase. */
+    slop?: number;
+    boost?: number;
+  };
+}
+
+export interface BoolQuery {
+  bool: {
+    /** Queries that must match. Their scores are added to the score. */
+    must?: Query[];
+    /** Queries that should match. Their scores are added to the score. */
+    should?: Query[];
+    /** Queries that must not match. */
+    mustNot?: Query[];
+    /** Queries that must match. They do not contribute to the score. */
+    filter?: Query[];
+    /** The minimum number of `should` queries that must match. Defaults to `1` without `must` or `filter` queries, `0` otherwise. */
+    minimumShouldMatch?: number | string;
+    boost?: number;
+  };
+}
+
+export interface MultiMatchQuery {
+  multiMatch: {
+    /** The text to search for. It is analyzed with the search analyzer of each attribute. */
+    query: string;
+    /** Attributes to search with optional boost (e.g., `'title^2'`). Defaults to all attributes. */
+    attributes?: string[];
+    /** How the scores of the attributes are combined: their sum (`most_fields`) or the best one (`best_fields`). */
+    type?: 'most_fields' | 'best_fields';
+    /** With `best_fields`, the factor applied to the scores of the other matching attributes. */
+    tieBreaker?: number;
+    operator?: 'and' | 'or';
+    minimumShouldMatch?: number | string;
+    boost?: number;
+  };
+}
+
+export interface BoostingQuery {
+  boosting: {
+    /** The query that documents must match. */
+    positive: Query;
+    /** Documents matching this query have their score multiplied by `negativeBoost`. */
+    negative: Query;
+    negativeBoost: number;
+  };
+}
+
+export interface ConstantScoreQuery {
+  constantScore: {
+    /** The query that documents must match. Its score is ignored. */
+    filter: Query;
+    /** The score given to every matching document. */
+    boost?: number;
+  };
+}
+
+export interface QueryStringQuery {
+  queryString: {
+    /** A Lucene-style query string, e.g., `title:(wireless OR bluetooth) AND -refurbished`. */
+    query: string;
+    /** Attributes searched by clauses without a field name. Defaults to all attributes. */
+    defaultAttributes?: string[];
+    /** The operator used between clauses without an explicit `AND` or `OR`. */
+    defaultOperator?: 'and' | 'or';
+    boost?: number;
+  };
+}
+
+export type Query = MatchQuery | TermQuery | SynonymQuery | PhraseQuery | BoolQuery | MultiMatchQuery | BoostingQuery | ConstantScoreQuery | QueryStringQuery;
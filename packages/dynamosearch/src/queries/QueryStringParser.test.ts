@@ -0,0 +1,75 @@
+import { test, expect } from 'vitest';
+import CustomAnalyzer from '../analyzers/CustomAnalyzer.js';
+import StandardAnalyzer from '../analyzers/StandardAnalyzer.js';
+import SynonymFilter from '../filters/SynonymFilter.js';
+import StandardTokenizer from '../tokenizers/StandardTokenizer.js';
+import QueryStringParser, { QueryStringParseError } from './QueryStringParser.js';
+
+const getParser = async (options?: { defaultOperator?: 'and' | 'or' }) => {
+  const analyzer = await StandardAnalyzer.getInstance({ stopWords: '_english_' });
+  return new QueryStringParser({
+    attributes: [
+      { name: 'title', analyzer, shortName: 't' },
+      { name: 'brand', analyzer, shortName: 'b' },
+    ],
+    defaultAttributes: ['title'],
+    ...options,
+  });
+};
+
+test('QueryStringParser', async () => {
+  const parser = await getParser();
+  expect(parser.parse('title:(wireless OR bluetooth) AND -refurbished b:"Sony"^2')).toEqual({
+    bool: {
+      must: [
+        {
+          bool: {
+            should: [
+              { term: { attribute: 'title', value: 'wireless' } },
+              { term: { attribute: 'title', value: 'bluetooth' } },
+            ],
+          },
+        },
+      ],
+      mustNot: [
+        { term: { attribute: 'title', value: 'refurbished' } },
+      ],
+      should: [
+        { term: { attribute: 'brand', value: 'sony', boost: 2 } },
+      ],
+    },
+  });
+});
+
+test('QueryStringParser (phrases and stop words)', async () => {
+  const parser = await getParser({ defaultOperator: 'and' });
+  expect(parser.parse('"Noise Cancelling"~1 the Headphones')).toEqual({
+    bool: {
+      must: [
+        { phrase: { attribute: 'title', query: 'Noise Cancelling', slop: 1 } },
+        { term: { attribute: 'title', value: 'headphones' } },
+      ],
+    },
+  });
+});
+
+test('QueryStringParser (synonyms)', async () => {
+  const analyzer = new CustomAnalyzer({
+    tokenizer: await StandardTokenizer.getInstance(),
+    filters: [SynonymFilter({ synonyms: ['tv, television', 'smartphone, smart phone'] })],
+  });
+  const parser = new QueryStringParser({ attributes: [{ name: 'title', analyzer }] });
+  expect(parser.parse('tv')).toEqual({ synonym: { attribute: 'title', terms: ['tv', 'television'] } });
+  // A phrase with a multi-word synonym is a single term.
+  expect(parser.parse('title:"smart phone"^2')).toEqual({ synonym: { attribute: 'title', terms: [['smart', 'phone'], 'smartphone'], boost: 2 } });
+  expect(parser.parse('"tv stand"')).toEqual({ phrase: { attribute: 'title', query: 'tv stand', slop: 0 } });
+});
+
+test('QueryStringParser (errors)', async () => {
+  const parser = await getParser();
+  expect(() => parser.parse('title:(wireless')).toThrow(new QueryStringParseError('Expected \')\'', 15));
+  expect(() => parser.parse('color:red')).toThrow(new QueryStringParseError('Unknown field \'color\'', 0));
+  expect(() => parser.parse('wireless AND')).toThrow(new QueryStringParseError('Unexpected end of query', 12));
+  expect(() => parser.parse('"wireless')).toThrow(new QueryStringParseError('Unterminated phrase', 0));
+  expect(() => parser.parse('wire*')).toThrow(QueryStringParseError);
+});
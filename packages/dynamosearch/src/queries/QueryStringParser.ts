@@ -0,0 +1,265 @@
+import type { Attribute } from '../index.js';
+import type { Query } from './Query.js';
+import { getSegments, toTermQuery } from './TokenGraph.js';
+
+export interface QueryStringParserOptions {
+  /** Attributes that field names in the query string are resolved against, by their name or short name. */
+  attributes: Attribute[];
+  /** Attributes searched by clauses without a field name. Defaults to all attributes. */
+  defaultAttributes?: string[];
+  /** The operator used between clauses without an explicit `AND` or `OR`. */
+  defaultOperator?: 'and' | 'or';
+}
+
+export class QueryStringParseError extends Error {
+  /** The offset of the character in the query string where the error was found. */
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'QueryStringParseError';
+    this.position = position;
+  }
+}
+
+type TokenType = 'TERM' | 'PHRASE' | 'AND' | 'OR' | 'NOT' | 'PLUS' | 'MINUS' | 'LPAREN' | 'RPAREN' | 'COLON' | 'CARET' | 'TILDE' | 'EOF';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+interface Clause {
+  query: Query | null;
+  occur: 'must' | 'should' | 'mustNot';
+}
+
+const SPECIAL_CHARS = new Set(['+', '-', '!', '(', ')', ':', '^', '"', '~', '\\']);
+const UNSUPPORTED_CHARS = new Set(['[', ']', '{', '}', '*', '?', '/']);
+
+const isOperatorAt = (query: string, i: number) => (query[i] === '&' || query[i] === '|') && query[i + 1] === query[i];
+
+const tokenize = (query: string) => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    const position = i;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '"') {
+      let text = '';
+      i++;
+      while (i < query.length && query[i] !== '"') {
+        if (query[i] === '\\' && i + 1 < query.length) i++;
+        text += query[i++];
+      }
+      if (i >= query.length) {
+        throw new QueryStringParseError('Unterminated phrase', position);
+      }
+      i++;
+      tokens.push({ type: 'PHRASE', text, position });
+    } else if (isOperatorAt(query, i)) {
+      tokens.push({ type: char === '&' ? 'AND' : 'OR', text: char + char, position });
+      i += 2;
+    } else if (char === '+' || char === '-' || char === '!') {
+      tokens.push({ type: char === '+' ? 'PLUS' : char === '-' ? 'MINUS' : 'NOT', text: char, position });
+      i++;
+    } else if (char === '(' || char === ')' || char === ':' || char === '^' || char === '~') {
+      const types: Record<string, TokenType> = { '(': 'LPAREN', ')': 'RPAREN', ':': 'COLON', '^': 'CARET', '~': 'TILDE' };
+      tokens.push({ type: types[char], text: char, position });
+      i++;
+    } else if (UNSUPPORTED_CHARS.has(char)) {
+      throw new QueryStringParseError(`Unsupported character '${char}'`, position);
+    } else {
+      let text = '';
+      while (i < query.length) {
+        if (query[i] === '\\' && i + 1 < query.length) {
+          text += query[i + 1];
+          i += 2;
+        } else if (UNSUPPORTED_CHARS.has(query[i])) {
+          throw new QueryStringParseError(`Unsupported character '${query[i]}'`, i);
+        } else if (/\s/.test(query[i]) || isOperatorAt(query, i) || (SPECIAL_CHARS.has(query[i]) && !(text && '+-!'.includes(query[i])))) {
+          break;
+        } else {
+          text += query[i++];
+        }
+      }
+      const keywords: Record<string, TokenType> = { AND: 'AND', OR: 'OR', NOT: 'NOT' };
+      const isEscaped = query.slice(position, i) !== text;
+      tokens.push({ type: !isEscaped && keywords[text] ? keywords[text] : 'TERM', text, position });
+    }
+  }
+  tokens.push({ type: 'EOF', text: '', position: query.length });
+  return tokens;
+};
+
+const withBoost = (query: Query, boost: number): Query => {
+  if ('term' in query) return { term: { ...query.term, boost: (query.term.boost ?? 1) * boost } };
+  if ('synonym' in query) return { synonym: { ...query.synonym, boost: (query.synonym.boost ?? 1) * boost } };
+  if ('phrase' in query) return { phrase: { ...query.phrase, boost: (query.phrase.boost ?? 1) * boost } };
+  if ('bool' in query) return { bool: { ...query.bool, boost: (query.bool.boost ?? 1) * boost } };
+  return { bool: { must: [query], boost } };
+};
+
+/**
+ * Parses Lucene-style query strings such as `title:(wireless OR bluetooth) AND -refurbished brand:"Sony"^2` into queries.
+ * Terms and phrases are analyzed with the search analyzer of their attribute, and clauses left without tokens are dropped.
+ */
+class QueryStringParser {
+  attributes: Attribute[];
+  defaultAttributes: Attribute[];
+  defaultOperator: 'and' | 'or';
+
+  private tokens: Token[] = [];
+  private index = 0;
+
+  constructor({ attributes, defaultAttributes, defaultOperator = 'or' }: QueryStringParserOptions) {
+    this.attributes = attributes;
+    this.defaultAttributes = defaultAttributes?.map((name) => {
+      const attribute = this.findAttribute(name);
+      if (!attribute) {
+        throw new Error(`Attribute not found: ${name}`);
+      }
+      return attribute;
+    }) ?? attributes;
+    this.defaultOperator = defaultOperator;
+  }
+
+  parse(query: string): Query {
+    this.tokens = tokenize(query);
+    this.index = 0;
+    const result = this.parseClauses();
+    if (this.peek().type !== 'EOF') {
+      throw new QueryStringParseError(`Unexpected '${this.peek().text}'`, this.peek().position);
+    }
+    return result ?? { bool: {} };
+  }
+
+  private findAttribute(name: string) {
+    return this.attributes.find(attr => attr.name === name) ?? this.attributes.find(attr => attr.shortName === name);
+  }
+
+  private peek(offset = 0) {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next() {
+    return this.tokens[this.index++];
+  }
+
+  private parseClauses(attributes?: Attribute[]): Query | null {
+    const clauses: Clause[] = [];
+    while (this.peek().type !== 'EOF' && this.peek().type !== 'RPAREN') {
+      let conjunction: 'and' | 'or' | undefined;
+      if (this.peek().type === 'AND' || this.peek().type === 'OR') {
+        if (clauses.length === 0) {
+          throw new QueryStringParseError(`Unexpected '${this.peek().text}'`, this.peek().position);
+        }
+        conjunction = this.next().type === 'AND' ? 'and' : 'or';
+      }
+      let modifier: 'required' | 'prohibited' | undefined;
+      if (this.peek().type === 'PLUS') {
+        this.next();
+        modifier = 'required';
+      } else if (this.peek().type === 'MINUS' || this.peek().type === 'NOT') {
+        this.next();
+        modifier = 'prohibited';
+      }
+      this.addClause(clauses, conjunction, modifier, this.parseClause(attributes));
+    }
+
+    const queries = clauses.filter(clause => clause.query);
+    if (queries.length === 0) return null;
+    if (queries.length === 1 && queries[0].occur !== 'mustNot') return queries[0].query;
+    const bool: { must?: Query[]; should?: Query[]; mustNot?: Query[] } = {};
+    queries.forEach(({ query, occur }) => {
+      bool[occur] = [...(bool[occur] ?? []), query!];
+    });
+    return { bool };
+  }
+
+  /**
+   * Determines whether a clause is required, optional or prohibited the same way as the classic Lucene query parser.
+   */
+  private addClause(clauses: Clause[], conjunction: 'and' | 'or' | undefined, modifier: 'required' | 'prohibited' | undefined, query: Query | null) {
+    const previous = clauses[clauses.length - 1];
+    if (previous && conjunction === 'and' && previous.occur === 'should') {
+      previous.occur = 'must';
+    }
+    if (previous && conjunction === 'or' && this.defaultOperator === 'and' && previous.occur === 'must') {
+      previous.occur = 'should';
+    }
+    const prohibited = modifier === 'prohibited';
+    const required = this.defaultOperator === 'or'
+      ? modifier === 'required' || (conjunction === 'and' && !prohibited)
+      : !prohibited && conjunction !== 'or';
+    clauses.push({ query, occur: prohibited ? 'mustNot' : required ? 'must' : 'should' });
+  }
+
+  private parseClause(attributes?: Attribute[]): Query | null {
+    let targets = attributes ?? this.defaultAttributes;
+    if (this.peek().type === 'TERM' && this.peek(1).type === 'COLON') {
+      const field = this.next();
+      this.next();
+      const attribute = this.findAttribute(field.text);
+      if (!attribute) {
+        throw new QueryStringParseError(`Unknown field '${field.text}'`, field.position);
+      }
+      targets = [attribute];
+    }
+
+    const token = this.next();
+    let query: Query | null;
+    if (token.type === 'LPAREN') {
+      query = this.parseClauses(targets);
+      if (this.peek().type !== 'RPAREN') {
+        throw new QueryStringParseError(`Expected ')'`, this.peek().position);
+      }
+      this.next();
+    } else if (token.type === 'PHRASE') {
+      const slop = this.peek().type === 'TILDE' ? this.parseNumber() : 0;
+      query = this.analyze(targets, token.text, slop);
+    } else if (token.type === 'TERM') {
+      if (this.peek().type === 'TILDE') {
+        throw new QueryStringParseError('Fuzzy queries are not supported', this.peek().position);
+      }
+      query = this.analyze(targets, token.text);
+    } else if (token.type === 'EOF') {
+      throw new QueryStringParseError('Unexpected end of query', token.position);
+    } else {
+      throw new QueryStringParseError(`Unexpected '${token.text}'`, token.position);
+    }
+
+    if (this.peek().type === 'CARET') {
+      const boost = this.parseNumber();
+      return query && withBoost(query, boost);
+    }
+    return query;
+  }
+
+  private parseNumber() {
+    this.next();
+    const token = this.next();
+    const value = Number(token.text);
+    if (token.type !== 'TERM' || Number.isNaN(value)) {
+      throw new QueryStringParseError('Expected a number', token.position);
+    }
+    return value;
+  }
+
+  private analyze(attributes: Attribute[], text: string, slop?: number): Query | null {
+    const queries = attributes.flatMap((attribute): Query[] => {
+      const segments = getSegments((attribute.searchAnalyzer ?? attribute.analyzer).analyze(text)).filter(segment => segment.alternatives.length > 0);
+      if (segments.length === 0) return [];
+      if (segments.length === 1) return [toTermQuery(attribute.name, segments[0].alternatives)];
+      if (slop !== undefined) return [{ phrase: { attribute: attribute.name, query: text, slop } }];
+      return [{ bool: { should: segments.map(segment => toTermQuery(attribute.name, segment.alternatives)) } }];
+    });
+    if (queries.length === 0) return null;
+    return queries.length === 1 ? queries[0] : { bool: { should: queries } };
+  }
+}
+
+export default QueryStringParser;
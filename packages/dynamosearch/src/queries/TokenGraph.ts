@@ -0,0 +1,63 @@
+import type { Token } from '../tokenizers/Tokenizer.js';
+import type { Query } from './Query.js';
+
+export interface Segment {
+  start: number;
+  end: number;
+  /** The sequences of words of the paths through the segment, such as a word and its synonyms. Empty for positions without tokens. */
+  alternatives: string[][];
+}
+
+/**
+ * Splits the tokens of a text into segments at the positions that every path through them passes, such as the positions
+ * between words without synonyms. Tokens span one position, or `positionLength` positions.
+ */
+export const getSegments = (tokens: Token[]): Segment[] => {
+  const edges = tokens.map((token, i) => {
+    const start = token.position ?? i;
+    return { text: token.text, start, end: start + (token.positionLength ?? 1) };
+  });
+  const nodes = [...new Set(edges.flatMap(edge => [edge.start, edge.end]))].sort((a, b) => a - b);
+  const boundaries = nodes.filter(node => !edges.some(edge => edge.start < node && node < edge.end));
+  const segments: Segment[] = [];
+  for (let i = 1; i < boundaries.length; i++) {
+    const start = boundaries[i - 1];
+    const end = boundaries[i];
+    const getPaths = (from: number): string[][] => from === end ? [[]] : edges
+      .filter(edge => edge.start === from && edge.end <= end)
+      .flatMap(edge => getPaths(edge.end).map(path => [edge.text, ...path]));
+    const alternatives = new Map(getPaths(start).map(path => [JSON.stringify(path), path]));
+    segments.push({ start, end, alternatives: [...alternatives.values()] });
+  }
+  return segments;
+};
+
+/**
+ * Expands segments into every sequence of words they can be read as, with the offsets of the words in the sequence.
+ * Gaps between segments are kept, so that the offsets of words around removed tokens stay apart.
+ */
+export const getPaths = (segments: Segment[]) => {
+  let paths = [{ words: [] as string[], offsets: [] as number[], next: segments[0]?.start ?? 0 }];
+  segments.forEach(({ start, end, alternatives }) => {
+    if (alternatives.length === 0) {
+      paths = paths.map(path => ({ ...path, next: path.next + end - start }));
+      return;
+    }
+    paths = paths.flatMap(path => alternatives.map(words => ({
+      words: [...path.words, ...words],
+      offsets: [...path.offsets, ...words.map((_, i) => path.next + i)],
+      next: path.next + words.length,
+    })));
+  });
+  return paths.map(({ words, offsets }) => ({ words, offsets }));
+};
+
+/**
+ * Returns a term query for a segment with a single word, or a synonym query for one with alternatives.
+ */
+export const toTermQuery = (attribute: string, alternatives: string[][], boost?: number): Query => {
+  if (alternatives.length === 1 && alternatives[0].length === 1) {
+    return { term: { attribute, value: alternatives[0][0], boost } };
+  }
+  return { synonym: { attribute, terms: alternatives.map(words => words.length === 1 ? words[0] : words), boost } };
+};
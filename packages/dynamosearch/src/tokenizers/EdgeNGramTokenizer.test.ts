@@ -0,0 +1,34 @@
+import { test, expect } from 'vitest';
+import EdgeNGramTokenizer from './EdgeNGramTokenizer.js';
+
+test('EdgeNGramTokenizer', async () => {
+  const tokenizer = await EdgeNGramTokenizer.getInstance({ minGram: 1, maxGram: 2 });
+  const tokens = tokenizer.tokenize('Quick Fox');
+  expect(tokens).toEqual([
+    { text: 'Q', position: 0, startOffset: 0, endOffset: 1 },
+    { text: 'Qu', position: 0, startOffset: 0, endOffset: 2 },
+  ]);
+});
+
+test('EdgeNGramTokenizer (tokenChars)', async () => {
+  const tokenizer = await EdgeNGramTokenizer.getInstance({ minGram: 2, maxGram: 3, tokenChars: ['letter', 'digit'] });
+  const tokens = tokenizer.tokenize('Quick-Fox 2 go!');
+  expect(tokens).toEqual([
+    { text: 'Qu', position: 0, startOffset: 0, endOffset: 2 },
+    { text: 'Qui', position: 0, startOffset: 0, endOffset: 3 },
+    { text: 'Fo', position: 1, startOffset: 6, endOffset: 8 },
+    { text: 'Fox', position: 1, startOffset: 6, endOffset: 9 },
+    { text: 'go', position: 3, startOffset: 12, endOffset: 14 },
+  ]);
+});
+
+test('EdgeNGramTokenizer (preserveOriginal)', async () => {
+  const tokenizer = await EdgeNGramTokenizer.getInstance({ minGram: 2, maxGram: 3, tokenChars: ['letter'], preserveOriginal: true });
+  const tokens = tokenizer.tokenize('quick a');
+  expect(tokens).toEqual([
+    { text: 'qu', position: 0, startOffset: 0, endOffset: 2 },
+    { text: 'qui', position: 0, startOffset: 0, endOffset: 3 },
+    { text: 'quick', position: 0, startOffset: 0, endOffset: 5 },
+    { text: 'a', position: 1, startOffset: 6, endOffset: 7 },
+  ]);
+});
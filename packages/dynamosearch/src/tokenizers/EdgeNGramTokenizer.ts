@@ -0,0 +1,75 @@
+import Tokenizer, { type Token } from './Tokenizer.js';
+
+export type TokenChars = 'letter' | 'digit' | 'whitespace' | 'punctuation' | 'symbol';
+
+export interface EdgeNGramTokenizerOptions {
+  minGram: number;
+  maxGram: number;
+  /** The character classes kept in tokens. The text is split at the other characters. All characters are kept if empty. */
+  tokenChars: TokenChars[];
+  /** Whether words longer than `maxGram` or shorter than `minGram` are also emitted as they are. */
+  preserveOriginal: boolean;
+}
+
+const TOKEN_CHAR_PATTERNS: Record<TokenChars, string> = {
+  letter: '\\p{L}\\p{M}',
+  digit: '\\p{Nd}',
+  whitespace: '\\s',
+  punctuation: '\\p{P}',
+  symbol: '\\p{S}',
+};
+
+/**
+ * Emits the prefixes of each word of the text, from `minGram` to `maxGram` characters long, for search-as-you-type. The
+ * prefixes of a word share its position, so that searches read them as alternatives of the word.
+ */
+class EdgeNGramTokenizer extends Tokenizer {
+  minGram: number;
+  maxGram: number;
+  tokenChars: TokenChars[];
+  preserveOriginal: boolean;
+  pattern: RegExp;
+
+  constructor({ minGram, maxGram, tokenChars, preserveOriginal }: EdgeNGramTokenizerOptions) {
+    super();
+    this.minGram = minGram;
+    this.maxGram = maxGram;
+    this.tokenChars = tokenChars;
+    this.preserveOriginal = preserveOriginal;
+    this.config = { type: 'EdgeNGramTokenizer', minGram, maxGram, tokenChars, preserveOriginal };
+    this.pattern = tokenChars.length === 0
+      ? /[^]+/gu
+      : new RegExp(`[${tokenChars.map(chars => TOKEN_CHAR_PATTERNS[chars]).join('')}]+`, 'gu');
+  }
+
+  static override async getInstance(options?: Partial<EdgeNGramTokenizerOptions>) {
+    return new EdgeNGramTokenizer({
+      minGram: options?.minGram ?? 1,
+      maxGram: options?.maxGram ?? 2,
+      tokenChars: options?.tokenChars ?? [],
+      preserveOriginal: options?.preserveOriginal ?? false,
+    });
+  }
+
+  tokenize(str: string) {
+    const tokens: Token[] = [];
+    const words = str.matchAll(this.pattern);
+    let position = 0;
+    for (const { 0: word, index } of words) {
+      const chars = Array.from(word);
+      let length = 0;
+      for (let i = 1; i <= chars.length && i <= this.maxGram; i++) {
+        length += chars[i - 1].length;
+        if (i < this.minGram) continue;
+        tokens.push({ text: word.slice(0, length), position, startOffset: index, endOffset: index + length });
+      }
+      if (this.preserveOriginal && (chars.length > this.maxGram || chars.length < this.minGram)) {
+        tokens.push({ text: word, position, startOffset: index, endOffset: index + word.length });
+      }
+      position++;
+    }
+    return tokens;
+  }
+}
+
+export default EdgeNGramTokenizer;
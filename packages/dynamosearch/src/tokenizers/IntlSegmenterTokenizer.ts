@@ -15,6 +15,7 @@ class IntlSegmenterTokenizer extends Tokenizer {
   constructor({ segmenter }: { segmenter: Intl.Segmenter }) {
     super();
     this.segmenter = segmenter;
+    this.config = { type: 'IntlSegmenterTokenizer', locales: segmenter.resolvedOptions().locale };
   }
 
   static override async getInstance(options?: Partial<IntlSegmenterTokenizerOptions>) {
@@ -25,7 +26,12 @@ class IntlSegmenterTokenizer extends Tokenizer {
 
   tokenize(str: string) {
     const iterator = this.segmenter.segment(str);
-    return [...iterator].filter(item => item.isWordLike).map(segment => ({ text: segment.segment }));
+    return [...iterator].filter(item => item.isWordLike).map((segment, i) => ({
+      text: segment.segment,
+      position: i,
+      startOffset: segment.index,
+      endOffset: segment.index + segment.segment.length,
+    }));
   }
 }
 
@@ -3,6 +3,7 @@ import Tokenizer from './Tokenizer.js';
 class KeywordTokenizer extends Tokenizer {
   constructor() {
     super();
+    this.config = { type: 'KeywordTokenizer' };
   }
 
   static override async getInstance() {
@@ -10,7 +11,7 @@ class KeywordTokenizer extends Tokenizer {
   }
 
   tokenize(str: string) {
-    return [{ text: str }];
+    return [{ text: str, position: 0, startOffset: 0, endOffset: str.length }];
   }
 }
 
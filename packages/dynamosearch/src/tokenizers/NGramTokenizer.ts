@@ -1,4 +1,4 @@
-import Tokenizer from './Tokenizer.js';
+import Tokenizer, { type Token } from './Tokenizer.js';
 
 export interface NGramTokenizerOptions {
   minGram: number;
@@ -13,6 +13,7 @@ class NGramTokenizer extends Tokenizer {
     super();
     this.minGram = minGram;
     this.maxGram = maxGram;
+    this.config = { type: 'NGramTokenizer', minGram, maxGram };
   }
 
   static override async getInstance(options?: Partial<NGramTokenizerOptions>) {
@@ -23,13 +24,13 @@ class NGramTokenizer extends Tokenizer {
   }
 
   tokenize(str: string) {
-    const tokens: string[] = [];
+    const tokens: Token[] = [];
     for (let i = 0; i < str.length; i++) {
       for (let j = this.minGram; j <= this.maxGram && i + j <= str.length; j++) {
-        tokens.push(str.slice(i, i + j));
+        tokens.push({ text: str.slice(i, i + j), position: tokens.length, startOffset: i, endOffset: i + j });
       }
     }
-    return tokens.map(token => ({ text: token }));
+    return tokens;
   }
 }
 
@@ -10,6 +10,7 @@ class PathHierarchyTokenizer extends Tokenizer {
   constructor({ delimiter }: PathHierarchyTokenizerOptions) {
     super();
     this.delimiter = delimiter;
+    this.config = { type: 'PathHierarchyTokenizer', delimiter };
   }
 
   static override async getInstance(options?: Partial<PathHierarchyTokenizerOptions>) {
@@ -20,9 +21,10 @@ class PathHierarchyTokenizer extends Tokenizer {
 
   tokenize(str: string) {
     const segments = str.split(this.delimiter).slice(1);
-    return new Array(segments.length).fill(0).map((_, i) => ({
-      text: this.delimiter + segments.slice(0, i + 1).join(this.delimiter),
-    }));
+    return new Array(segments.length).fill(0).map((_, i) => {
+      const text = this.delimiter + segments.slice(0, i + 1).join(this.delimiter);
+      return { text, position: i, startOffset: 0, endOffset: text.length };
+    });
   }
 }
 
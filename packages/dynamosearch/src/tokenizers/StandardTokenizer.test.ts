@@ -18,3 +18,14 @@ test('StandardTokenizer', async () => {
     { text: 'bone' },
   ]);
 });
+
+test('StandardTokenizer (positions)', async () => {
+  const tokenizer = await StandardTokenizer.getInstance({ maxTokenLength: 5 });
+  const tokens = tokenizer.tokenize('Quick, wonderful fox');
+  expect(tokens).toEqual([
+    { text: 'Quick', position: 0, startOffset: 0, endOffset: 5 },
+    { text: 'wonde', position: 1, startOffset: 7, endOffset: 12 },
+    { text: 'rful', position: 2, startOffset: 12, endOffset: 16 },
+    { text: 'fox', position: 3, startOffset: 17, endOffset: 20 },
+  ]);
+});
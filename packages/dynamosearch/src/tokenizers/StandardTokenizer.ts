@@ -1,4 +1,4 @@
-import Tokenizer from './Tokenizer.js';
+import Tokenizer, { type Token } from './Tokenizer.js';
 
 export interface StandardTokenizerOptions {
   /** The maximum token length. If a token is seen that exceeds this length then it is split at max_token_length intervals. */
@@ -11,6 +11,7 @@ class StandardTokenizer extends Tokenizer {
   constructor({ maxTokenLength }: StandardTokenizerOptions) {
     super();
     this.maxTokenLength = maxTokenLength;
+    this.config = { type: 'StandardTokenizer', maxTokenLength };
   }
 
   static override async getInstance(options?: Partial<StandardTokenizerOptions>) {
@@ -20,15 +21,15 @@ class StandardTokenizer extends Tokenizer {
   }
 
   tokenize(str: string) {
-    const tokens: string[] = [];
-    const segments = str.split(/[-\s,.]+/).filter(Boolean);
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
+    const tokens: Token[] = [];
+    const segments = str.matchAll(/[^-\s,.]+/g);
+    for (const { 0: segment, index } of segments) {
       for (let j = 0; j < segment.length; j += this.maxTokenLength) {
-        tokens.push(segment.slice(j, j + this.maxTokenLength));
+        const text = segment.slice(j, j + this.maxTokenLength);
+        tokens.push({ text, position: tokens.length, startOffset: index + j, endOffset: index + j + text.length });
       }
     }
-    return tokens.map(token => ({ text: token }));
+    return tokens;
   }
 }
 
@@ -1,9 +1,28 @@
+import type { ComponentConfig } from '../analysis.js';
+
+export interface Token {
+  text: string;
+  /** The position of the token in the token stream. Tokens removed by filters leave a gap in positions. */
+  position?: number;
+  /** The number of positions the token spans, greater than `1` for a synonym standing for several tokens. Defaults to `1`. */
+  positionLength?: number;
+  /** The offset of the first character of the token in the tokenized text. */
+  startOffset?: number;
+  /** The offset after the last character of the token in the tokenized text. */
+  endOffset?: number;
+  /** Whether stemmers leave the token as it is, as marked by `KeywordMarkerFilter`. */
+  keyword?: boolean;
+}
+
 abstract class Tokenizer {
+  /** The registered name and options of the tokenizer, which make up the fingerprint of the analyzers using it. */
+  config?: ComponentConfig;
+
   static async getInstance(): Promise<Tokenizer> {
     throw new Error('Not implemented');
   }
 
-  abstract tokenize(str: string): { text: string }[];
+  abstract tokenize(str: string): Token[];
 }
 
 export default Tokenizer;
@@ -1,3 +1,4 @@
+import { withConfig } from 'dynamosearch/analyzers/Analyzer.js';
 import * as PredefinedStopWords from './stopwords/index.js';
 
 export interface JapaneseStopFilterOptions {
@@ -20,9 +21,9 @@ const JapaneseStopFilter = ({ stopWords = '_japanese_' }: JapaneseStopFilterOpti
       }
     }
   }
-  return (tokens: { text: string }[]) => {
+  return withConfig((tokens: { text: string }[]) => {
     return tokens.filter(token => !stopWordSet.has(token.text));
-  };
+  }, { type: 'JapaneseStopFilter', stopWords });
 };
 
 export default JapaneseStopFilter;
@@ -1,12 +1,13 @@
+import { withConfig } from 'dynamosearch/analyzers/Analyzer.js';
 import type { IpadicFeatures } from 'kuromoji';
 
-const KuromojiBaseFormFilter = () => (tokens: { text: string; metadata?: IpadicFeatures }[]) => {
+const KuromojiBaseFormFilter = () => withConfig((tokens: { text: string; metadata?: IpadicFeatures }[]) => {
   return tokens.map((item) => {
     if (!item.metadata?.basic_form || item.metadata.basic_form === '*') {
       return item;
     }
     return { ...item, text: item.metadata.basic_form };
   });
-};
+}, { type: 'KuromojiBaseFormFilter' });
 
 export default KuromojiBaseFormFilter;
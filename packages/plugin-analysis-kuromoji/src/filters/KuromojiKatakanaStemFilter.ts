@@ -1,10 +1,12 @@
+import { withConfig } from 'dynamosearch/analyzers/Analyzer.js';
+
 export interface KuromojiKatakanaStemFilterOptions {
   /** Katakana words shorter than the minimumLength are not stemmed. */
   minimumLength?: number;
 }
 
-const KuromojiKatakanaStemFilter = ({ minimumLength = 4 }: KuromojiKatakanaStemFilterOptions = {}) => (tokens: { text: string }[]) => {
+const KuromojiKatakanaStemFilter = ({ minimumLength = 4 }: KuromojiKatakanaStemFilterOptions = {}) => withConfig((tokens: { text: string }[]) => {
   return tokens.map((item) => ({ ...item, text: item.text.length < minimumLength ? item.text : item.text.replace(/ー$/, '') }));
-};
+}, { type: 'KuromojiKatakanaStemFilter', minimumLength });
 
 export default KuromojiKatakanaStemFilter;
@@ -1,3 +1,4 @@
+import { withConfig } from 'dynamosearch/analyzers/Analyzer.js';
 import type { IpadicFeatures } from 'kuromoji';
 
 export interface KuromojiPartOfSpeechStopFilterOptions {
@@ -38,7 +39,7 @@ const DEFAULT_STOP_TAGS = new Set([
   '非言語音',
 ]);
 
-const KuromojiPartOfSpeechStopFilter = ({ stopTags = DEFAULT_STOP_TAGS }: KuromojiPartOfSpeechStopFilterOptions = {}) => (tokens: { text: string; metadata?: IpadicFeatures }[]) => {
+const KuromojiPartOfSpeechStopFilter = ({ stopTags = DEFAULT_STOP_TAGS }: KuromojiPartOfSpeechStopFilterOptions = {}) => withConfig((tokens: { text: string; metadata?: IpadicFeatures }[]) => {
   return tokens.filter(({ metadata }) => {
     if (!metadata) {
       return true;
@@ -46,6 +47,6 @@ const KuromojiPartOfSpeechStopFilter = ({ stopTags = DEFAULT_STOP_TAGS }: Kuromo
     const pos = [metadata.pos, metadata.pos_detail_1, metadata.pos_detail_2, metadata.pos_detail_3].filter(item => !!item && item !== '*').join('-');
     return !stopTags.has(pos);
   });
-};
+}, { type: 'KuromojiPartOfSpeechStopFilter', stopTags: [...stopTags] });
 
 export default KuromojiPartOfSpeechStopFilter;
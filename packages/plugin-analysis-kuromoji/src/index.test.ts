@@ -0,0 +1,17 @@
+import { test, expect } from 'vitest';
+import { AnalysisRegistry } from 'dynamosearch/analysis.js';
+import register from './index.js';
+import KuromojiAnalyzer from './analyzers/KuromojiAnalyzer.js';
+
+test('register', async () => {
+  const registry = new AnalysisRegistry();
+  registry.use(register);
+  const analyzer = await registry.createAnalyzer({
+    type: 'custom',
+    tokenizer: 'KuromojiTokenizer',
+    filter: ['KuromojiBaseFormFilter', { type: 'KuromojiPartOfSpeechStopFilter', stopTags: ['助詞-係助詞', '助動詞', '記号-句点'] }],
+  });
+  expect(analyzer.analyze('吾輩は猫である。').map(token => token.text)).toEqual(['吾輩', '猫']);
+
+  expect(await registry.createAnalyzer('KuromojiAnalyzer')).toBeInstanceOf(KuromojiAnalyzer);
+});
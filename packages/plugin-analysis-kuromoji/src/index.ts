@@ -1 +1,24 @@
-export {};
+import type { AnalysisRegistry } from 'dynamosearch/analysis.js';
+import KuromojiAnalyzer from './analyzers/KuromojiAnalyzer.js';
+import KuromojiTokenizer from './tokenizers/KuromojiTokenizer.js';
+import JapaneseStopFilter from './filters/JapaneseStopFilter.js';
+import KuromojiBaseFormFilter from './filters/KuromojiBaseFormFilter.js';
+import KuromojiKatakanaStemFilter from './filters/KuromojiKatakanaStemFilter.js';
+import KuromojiPartOfSpeechStopFilter from './filters/KuromojiPartOfSpeechStopFilter.js';
+
+/**
+ * Registers the analyzer, tokenizer and filters of this plugin, so that configs can refer to them by name.
+ */
+const register = (registry: AnalysisRegistry) => {
+  registry.registerAnalyzer('KuromojiAnalyzer', () => KuromojiAnalyzer.getInstance());
+  registry.registerTokenizer('KuromojiTokenizer', options => KuromojiTokenizer.getInstance(options));
+  registry.registerFilter('JapaneseStopFilter', options => JapaneseStopFilter(options));
+  registry.registerFilter('KuromojiBaseFormFilter', () => KuromojiBaseFormFilter());
+  registry.registerFilter('KuromojiKatakanaStemFilter', options => KuromojiKatakanaStemFilter(options));
+  // Stop tags are given as an array in JSON.
+  registry.registerFilter('KuromojiPartOfSpeechStopFilter', ({ stopTags }: { stopTags?: string[] }) => KuromojiPartOfSpeechStopFilter({
+    stopTags: stopTags && new Set(stopTags),
+  }));
+};
+
+export default register;
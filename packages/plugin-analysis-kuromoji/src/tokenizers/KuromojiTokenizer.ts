@@ -22,6 +22,7 @@ class KuromojiTokenizer extends Tokenizer {
     super();
     this.discardPunctuation = discardPunctuation;
     this.tokenizer = tokenizer;
+    this.config = { type: 'KuromojiTokenizer', discardPunctuation };
   }
 
   static override async getInstance(options?: Partial<KuromojiTokenizerOptions>) {
@@ -44,8 +45,11 @@ class KuromojiTokenizer extends Tokenizer {
 
   tokenize(str: string) {
     const tokens = this.tokenizer.tokenize(str);
-    return tokens.filter(token => !(this.discardPunctuation && isPunctuation(token.surface_form))).map(token => ({
+    return tokens.filter(token => !(this.discardPunctuation && isPunctuation(token.surface_form))).map((token, i) => ({
       text: token.surface_form,
+      position: i,
+      startOffset: token.word_position - 1,
+      endOffset: token.word_position - 1 + token.surface_form.length,
       metadata: token,
     }));
   }